@@ -0,0 +1,147 @@
+// Compares the occupancy-index helpers with the per-widget scans they replaced.
+// Run with `npm run bench` (builds dist first).
+import { performance } from 'node:perf_hooks';
+import { getNextAvailablePosition, reflowWidgets, compactWidgets, OccupancyIndex } from '../dist/index.esm.js';
+
+// Previous implementations, kept here as the baseline
+
+const overlaps = (a, x, y, w, h) => a.x < x + w && a.x + a.width > x && a.y < y + h && a.y + a.height > y;
+
+function scanNextAvailablePosition(widgets, cols, rows, w, h) {
+  if (w > cols) return null;
+  const lastRow = Math.min(rows - h, widgets.reduce((bottom, o) => Math.max(bottom, o.y + o.height), 0));
+  for (let y = 0; y <= lastRow; y++) {
+    for (let x = 0; x <= cols - w; x++) {
+      if (!widgets.some(o => overlaps(o, x, y, w, h))) return { x, y };
+    }
+  }
+  return null;
+}
+
+function scanReflowWidgets(widgets, cols, rows, activeId) {
+  const ordered = [...widgets].sort((a, b) =>
+    (a.id === activeId ? -1 : b.id === activeId ? 1 : 0) || a.y - b.y || a.x - b.x
+  );
+  const gridMap = {};
+  const canPlace = (w, x, y) => {
+    if (x < 0 || y < 0 || x + w.width > cols || y + w.height > rows) return false;
+    for (let dy = 0; dy < w.height; dy++) {
+      for (let dx = 0; dx < w.width; dx++) {
+        const key = `${x + dx},${y + dy}`;
+        if (gridMap[key] && gridMap[key] !== w.id) return false;
+      }
+    }
+    return true;
+  };
+  const result = [];
+  for (const widget of ordered) {
+    const pos = canPlace(widget, widget.x, widget.y)
+      ? { x: widget.x, y: widget.y }
+      : scanNextAvailablePosition(result, cols, rows, widget.width, widget.height);
+    const placed = { ...widget, ...pos };
+    result.push(placed);
+    for (let dy = 0; dy < placed.height; dy++) {
+      for (let dx = 0; dx < placed.width; dx++) gridMap[`${placed.x + dx},${placed.y + dy}`] = placed.id;
+    }
+  }
+  return result;
+}
+
+// Vertical compaction only; none of the bench widgets are static
+function scanCompactWidgets(widgets, cols, rows) {
+  const ordered = [...widgets].sort((a, b) => (a.y - b.y) || (a.x - b.x));
+  const placed = [];
+  const compacted = new Map();
+  for (const widget of ordered) {
+    let candidate = {
+      ...widget,
+      x: Math.max(0, Math.min(widget.x, cols - widget.width)),
+      y: Math.max(0, Math.min(widget.y, rows - widget.height))
+    };
+    while (candidate.y > 0) {
+      const next = { ...candidate, y: candidate.y - 1 };
+      if (placed.some(o => overlaps(o, next.x, next.y, next.width, next.height))) break;
+      candidate = next;
+    }
+    placed.push(candidate);
+    compacted.set(widget.id, candidate);
+  }
+  return widgets.map(widget => compacted.get(widget.id) ?? widget);
+}
+
+const scanIsEmptyCell = (widgets, x, y) =>
+  !widgets.some(w => x >= w.x && x < w.x + w.width && y >= w.y && y < w.y + w.height);
+
+// Layouts
+
+// 16x16 pixel-art grid with the last cell free
+const pixelArt = () => {
+  const widgets = [];
+  for (let y = 0; y < 16; y++) {
+    for (let x = 0; x < 16; x++) {
+      if (x !== 15 || y !== 15) widgets.push({ id: `pixel-${x}-${y}`, type: 'pixel', x, y, width: 1, height: 1 });
+    }
+  }
+  return { name: 'pixel art (255 widgets, 16x16)', widgets, cols: 16, rows: 16 };
+};
+
+// Floor plan of 2x1 tiles on a 40-column grid with a free row at the bottom
+const floorPlan = () => {
+  const widgets = [];
+  for (let i = 0; i < 520; i++) {
+    widgets.push({ id: `tile-${i}`, type: 'tile', x: (i % 20) * 2, y: Math.floor(i / 20), width: 2, height: 1 });
+  }
+  return { name: 'floor plan (520 widgets, 40x27)', widgets, cols: 40, rows: 27 };
+};
+
+const time = (iterations, run) => {
+  run();
+  const start = performance.now();
+  for (let i = 0; i < iterations; i++) run();
+  return (performance.now() - start) / iterations;
+};
+
+const results = [];
+const compare = (name, iterations, baseline, indexed) => {
+  const before = time(iterations, baseline);
+  const after = time(iterations, indexed);
+  results.push({
+    case: name,
+    'baseline ms': before.toFixed(3),
+    'indexed ms': after.toFixed(3),
+    speedup: `${(before / after).toFixed(1)}x`
+  });
+};
+
+for (const { name, widgets, cols, rows } of [pixelArt(), floorPlan()]) {
+  const last = widgets[widgets.length - 1];
+  const moved = widgets.map(w => w.id === last.id ? { ...w, x: 0, y: 0 } : w);
+
+  compare(`${name}: next free slot`, 20,
+    () => scanNextAvailablePosition(widgets, cols, rows, 1, 1),
+    () => getNextAvailablePosition(widgets, cols, rows, 1, 1));
+
+  compare(`${name}: reflow after a move`, 5,
+    () => scanReflowWidgets(moved, cols, rows, last.id),
+    () => reflowWidgets(moved, cols, rows, true, last.id));
+
+  // The layout with a free top row, so every widget floats up by one
+  const lowered = widgets.map(w => ({ ...w, y: w.y + 1 }));
+  compare(`${name}: vertical compaction`, 5,
+    () => scanCompactWidgets(lowered, cols, rows + 1),
+    () => compactWidgets(lowered, 'vertical', cols, rows + 1));
+
+  // Hover detection over every cell; the index is built once per layout
+  const index = new OccupancyIndex(cols, widgets);
+  compare(`${name}: hover over every cell`, 20,
+    () => { for (let y = 0; y < rows; y++) for (let x = 0; x < cols; x++) scanIsEmptyCell(widgets, x, y); },
+    () => { for (let y = 0; y < rows; y++) for (let x = 0; x < cols; x++) index.isCellFree(x, y); });
+
+  // Moving one widget back and forth: sync re-indexes only what changed
+  let step = 0;
+  compare(`${name}: index update after a move`, 20,
+    () => new OccupancyIndex(cols, step++ % 2 ? moved : widgets),
+    () => index.sync(step++ % 2 ? moved : widgets));
+}
+
+console.table(results);
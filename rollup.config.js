@@ -2,31 +2,60 @@ import typescript from '@rollup/plugin-typescript';
 import postcss from 'rollup-plugin-postcss';
 import peerDepsExternal from 'rollup-plugin-peer-deps-external';
 
-export default {
-  input: 'src/index.ts',
-  output: [
-    {
-      file: 'dist/index.js',
-      format: 'cjs',
-      sourcemap: true,
-    },
-    {
-      file: 'dist/index.esm.js',
-      format: 'esm',
-      sourcemap: true,
-    },
-  ],
-  external: ['react', 'react-dom', '@dnd-kit/core'],
-  plugins: [
-    peerDepsExternal(),
-    postcss({
-      extract: true,
-      minimize: true,
-    }),
-    typescript({
-      tsconfig: './tsconfig.json',
-      declaration: true,
-      declarationDir: 'dist',
-    }),
-  ],
-};
+const external = ['react', 'react-dom', '@dnd-kit/core'];
+
+export default [
+  {
+    input: 'src/index.ts',
+    output: [
+      {
+        file: 'dist/index.js',
+        format: 'cjs',
+        sourcemap: true,
+      },
+      {
+        file: 'dist/index.esm.js',
+        format: 'esm',
+        sourcemap: true,
+      },
+    ],
+    external,
+    plugins: [
+      peerDepsExternal(),
+      postcss({
+        extract: true,
+        minimize: true,
+      }),
+      typescript({
+        tsconfig: './tsconfig.json',
+        declaration: true,
+        declarationDir: 'dist',
+      }),
+    ],
+  },
+  // Headless engine without React, @dnd-kit or styles; its declarations come from the build above
+  {
+    input: 'src/engine/index.ts',
+    output: [
+      {
+        file: 'dist/engine.cjs',
+        format: 'cjs',
+        sourcemap: true,
+      },
+      {
+        file: 'dist/engine.esm.js',
+        format: 'esm',
+        sourcemap: true,
+      },
+    ],
+    external,
+    plugins: [
+      typescript({
+        tsconfig: './tsconfig.json',
+        declaration: false,
+        declarationDir: undefined,
+        outDir: 'dist',
+      }),
+    ],
+  },
+];
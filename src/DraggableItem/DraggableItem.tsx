@@ -1,10 +1,21 @@
-import React, { useRef, useState, memo } from "react";
+import React, { useEffect, useRef, useState, memo } from "react";
 import type { ReactNode } from "react";
 import { useDraggable } from "@dnd-kit/core";
+import type { ResizeHandle } from "../types";
+import { resizeFromHandle } from "../utils/grid/gridMath";
 import "./DraggableItem.css";
 
+/** Pointer travel (px) that cancels a pending long-press resize */
+const LONG_PRESS_TOLERANCE = 8;
+
+const DEFAULT_RESIZE_HANDLES: ResizeHandle[] = ["se"];
+
 export interface DraggableItemProps {
   id: string;
+  /** dnd-kit draggable id when `id` is not unique across the DndContext; defaults to `id` */
+  dragId?: string;
+  /** Extra data attached to the dnd-kit draggable */
+  dragData?: Record<string, any>;
   x: number;
   y: number;
   w: number;
@@ -13,6 +24,10 @@ export interface DraggableItemProps {
   minH?: number;
   maxW?: number;
   maxH?: number;
+  /** Width / height in cells kept while resizing */
+  aspectRatio?: number;
+  /** Resizing snaps to multiples of these cell counts */
+  sizeStep?: { w?: number; h?: number };
   cellWidth: number;
   cellHeight: number;
   children: ReactNode;
@@ -25,14 +40,47 @@ export interface DraggableItemProps {
     isValid: boolean;
   };
   isEditing?: boolean;
-  onResize: (id: string, newW: number, newH: number) => void;
+  /** x/y are passed when a north or west handle moved the widget's origin; return false if the size was not applied */
+  onResize: (id: string, newW: number, newH: number, newX?: number, newY?: number) => boolean | void;
+  /** Reports the in-progress rectangle while resizing, and null when the gesture ends */
+  onResizePreview?: (
+    id: string,
+    rect: { x: number; y: number; width: number; height: number } | null
+  ) => void;
+  /** Called once the resize gesture becomes active */
+  onResizeStart?: (id: string) => void;
+  /** Called when the gesture ends with the applied rectangle, or null if it was cancelled or not applied */
+  onResizeEnd?: (
+    id: string,
+    rect: { x: number; y: number; width: number; height: number } | null
+  ) => void;
+  /** Handles to render; defaults to the bottom-right corner */
+  resizeHandles?: ResizeHandle[];
+  /** Grid bounds used to clamp resizing */
+  gridCols?: number;
+  gridRows?: number;
   onDelete?: (id: string) => void;
   /** If true, dragging is enabled regardless of isEditing state */
   isDraggable?: boolean;
+  /** When false no resize handles are rendered */
+  isResizable?: boolean;
+  /** Touch/pen hold time (ms) before the resize handle activates; 0 starts immediately */
+  resizeLongPressDelay?: number;
+  /** Accessible name; defaults to "Widget <id>" */
+  label?: string;
+  /** Id of the element describing the keyboard controls */
+  describedBy?: string;
+  isSelected?: boolean;
+  /** Called on click in edit mode; additive is true for Shift, Ctrl or Cmd clicks */
+  onSelect?: (id: string, additive: boolean) => void;
+  /** Pinned in place: disables dragging, resizing and the delete button */
+  isStatic?: boolean;
 }
 
 function DraggableItemComponent({
   id,
+  dragId,
+  dragData,
   x,
   y,
   w,
@@ -41,6 +89,8 @@ function DraggableItemComponent({
   minH,
   maxW,
   maxH,
+  aspectRatio,
+  sizeStep,
   cellWidth,
   cellHeight,
   children,
@@ -48,93 +98,205 @@ function DraggableItemComponent({
   previewState,
   isEditing = true,
   onResize,
+  onResizePreview,
+  onResizeStart,
+  onResizeEnd,
+  resizeHandles = DEFAULT_RESIZE_HANDLES,
+  gridCols = Infinity,
+  gridRows = Infinity,
   onDelete,
   isDraggable,
+  isResizable = true,
+  resizeLongPressDelay = 0,
+  label,
+  describedBy,
+  isSelected = false,
+  onSelect,
+  isStatic = false,
 }: DraggableItemProps) {
   const resizing = useRef(false);
-  const resizeHandler = useRef<((e: Event) => void) | null>(null);
-  const [resizeDims, setResizeDims] = useState<{ w: number; h: number } | null>(
-    null
-  );
+  const resizeCleanup = useRef<(() => void) | null>(null);
+  const [resizeRect, setResizeRect] = useState<
+    { x: number; y: number; w: number; h: number } | null
+  >(null);
+
+  // A widget removed mid-resize (e.g. deleted through the grid ref) cancels the gesture
+  useEffect(() => () => resizeCleanup.current?.(), []);
 
-  // Allow dragging if isDraggable is explicitly true, or if in editing mode
-  const canDrag = isDraggable !== undefined ? isDraggable : isEditing;
+  // Allow dragging if isDraggable is explicitly true, or if in editing mode; never for static widgets
+  const canDrag = !isStatic && (isDraggable !== undefined ? isDraggable : isEditing);
 
   const { attributes, listeners, setNodeRef, transform } = useDraggable({
-    id,
+    id: dragId ?? id,
+    data: dragData,
     disabled: !canDrag,
   });
 
-  const handleResizeStart = (e: React.MouseEvent<HTMLDivElement>) => {
+  const handleResizeStart = (
+    handleDirection: ResizeHandle,
+    e: React.PointerEvent<HTMLDivElement>
+  ) => {
+    if (e.pointerType === "mouse" && e.button !== 0) return;
     e.stopPropagation();
     e.preventDefault();
 
-    if (resizeHandler.current) {
-      document.removeEventListener("mousemove", resizeHandler.current);
-    }
+    resizeCleanup.current?.();
 
-    resizing.current = true;
+    const handle = e.currentTarget;
+    const pointerId = e.pointerId;
     const startX = e.clientX;
     const startY = e.clientY;
-    setResizeDims({ w, h });
+    // The grid's position at the start, so scrolling mid-resize counts as pointer movement
+    const grid = handle.closest(".draggable-item")?.parentElement ?? null;
+    const gridStart = grid?.getBoundingClientRect() ?? null;
+    let lastEvent: PointerEvent | null = null;
+    let latest = { x, y, w, h };
+    let active = false;
+    let longPressTimer: ReturnType<typeof setTimeout> | null = null;
 
-    const currentHandler = (event: Event) => {
-      const e = event as MouseEvent;
-      const dx = e.clientX - startX;
-      const dy = e.clientY - startY;
+    // Capture keeps touch and pen moves on the handle; document listeners
+    // still receive them if the handle is removed mid-gesture
+    try {
+      handle.setPointerCapture(pointerId);
+    } catch (error) {
+      // Pointer capture is unavailable for synthetic or already released pointers
+    }
 
-      const newWidthPx = w * cellWidth + dx;
-      const newHeightPx = h * cellHeight + dy;
+    const activate = () => {
+      active = true;
+      resizing.current = true;
+      setResizeRect(latest);
+      onResizeStart?.(id);
+    };
 
-      const newW = Math.max(
-        minW ?? 1,
-        Math.min(maxW ?? Infinity, Math.round(newWidthPx / cellWidth))
-      );
-      const newH = Math.max(
-        minH ?? 1,
-        Math.min(maxH ?? Infinity, Math.round(newHeightPx / cellHeight))
+    const handleMove = (event: PointerEvent) => {
+      if (event.pointerId !== pointerId) return;
+      lastEvent = event;
+      let dx = event.clientX - startX;
+      let dy = event.clientY - startY;
+
+      if (!active) {
+        // Moving before the long press completes is a scroll or tap, not a resize
+        if (Math.hypot(dx, dy) > LONG_PRESS_TOLERANCE) finish(false);
+        return;
+      }
+
+      const gridNow = gridStart && grid?.getBoundingClientRect();
+      if (gridStart && gridNow) {
+        dx += gridStart.left - gridNow.left;
+        dy += gridStart.top - gridNow.top;
+      }
+
+      const next = resizeFromHandle(
+        { x, y, width: w, height: h },
+        handleDirection,
+        Math.round(dx / cellWidth),
+        Math.round(dy / cellHeight),
+        { minW, minH, maxW, maxH, aspectRatio, sizeStep },
+        gridCols,
+        gridRows
       );
 
-      setResizeDims({ w: newW, h: newH });
+      if (
+        next.x === latest.x &&
+        next.y === latest.y &&
+        next.width === latest.w &&
+        next.height === latest.h
+      ) {
+        return;
+      }
+      latest = { x: next.x, y: next.y, w: next.width, h: next.height };
+      setResizeRect(latest);
+      onResizePreview?.(id, next);
+    };
 
-      // Calculate preview but don't commit
-      onResize(id, newW, newH);
+    // Auto-scroll moves the grid under a still pointer
+    const handleScroll = () => {
+      if (active && lastEvent) handleMove(lastEvent);
     };
 
-    resizeHandler.current = currentHandler;
-    document.addEventListener("mousemove", currentHandler);
-    document.addEventListener("mouseup", handleResizeEnd);
-  };
+    const handleUp = (event: PointerEvent) => {
+      if (event.pointerId !== pointerId) return;
+      finish(active);
+    };
 
-  const handleResizeEnd = () => {
-    resizing.current = false;
+    // Escape cancels; captured so the grid's keyboard handling never sees it
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key !== "Escape") return;
+      event.preventDefault();
+      event.stopPropagation();
+      finish(false);
+    };
 
-    // Only send the resize event when we finish
-    if (resizeDims) {
-      onResize(id, resizeDims.w, resizeDims.h);
-    }
+    const finish = (commit: boolean) => {
+      if (longPressTimer) clearTimeout(longPressTimer);
+      document.removeEventListener("pointermove", handleMove);
+      document.removeEventListener("pointerup", handleUp);
+      document.removeEventListener("pointercancel", handleUp);
+      document.removeEventListener("keydown", handleKeyDown, true);
+      document.removeEventListener("scroll", handleScroll, true);
+      if (handle.hasPointerCapture?.(pointerId)) {
+        handle.releasePointerCapture(pointerId);
+      }
+      resizeCleanup.current = null;
+      resizing.current = false;
+      setResizeRect(null);
+
+      // Only send the final size when the gesture completes
+      const applied = commit && commitResize();
+      onResizePreview?.(id, null);
+      if (active) {
+        onResizeEnd?.(
+          id,
+          applied ? { x: latest.x, y: latest.y, width: latest.w, height: latest.h } : null
+        );
+      }
+    };
+
+    // Releasing at the starting size changes nothing, so there is nothing to reject
+    const commitResize = () => {
+      if (latest.x === x && latest.y === y && latest.w === w && latest.h === h) return true;
+      const result = latest.x !== x || latest.y !== y
+        ? onResize(id, latest.w, latest.h, latest.x, latest.y)
+        : onResize(id, latest.w, latest.h);
+      return result !== false;
+    };
 
-    setResizeDims(null);
+    resizeCleanup.current = () => finish(false);
+    document.addEventListener("pointermove", handleMove);
+    document.addEventListener("pointerup", handleUp);
+    document.addEventListener("pointercancel", handleUp);
+    document.addEventListener("keydown", handleKeyDown, true);
+    document.addEventListener("scroll", handleScroll, true);
 
-    if (resizeHandler.current) {
-      document.removeEventListener("mousemove", resizeHandler.current);
-      document.removeEventListener("mouseup", handleResizeEnd);
-      resizeHandler.current = null;
+    if (e.pointerType !== "mouse" && resizeLongPressDelay > 0) {
+      longPressTimer = setTimeout(activate, resizeLongPressDelay);
+    } else {
+      activate();
     }
   };
 
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!isEditing || !onSelect) return;
+    // Handle clicks (delete, resize, drag) are not selection clicks
+    if ((e.target as HTMLElement).closest("[data-no-dnd], .drag-handle")) return;
+    onSelect(id, e.shiftKey || e.ctrlKey || e.metaKey);
+  };
+
   return (
     <>
       <div
         className={`draggable-item ${resizing.current ? "resizing" : ""} ${
           showPreview ? "dragging" : ""
-        } ${isEditing ? "edit-mode" : ""}`}
+        } ${isEditing ? "edit-mode" : ""} ${isSelected ? "selected" : ""} ${
+          isStatic ? "static" : ""
+        }`}
         style={
           {
-            ["--cell-x" as string]: x,
-            ["--cell-y" as string]: y,
-            ["--cell-w" as string]: resizeDims ? resizeDims.w : w,
-            ["--cell-h" as string]: resizeDims ? resizeDims.h : h,
+            ["--cell-x" as string]: resizeRect ? resizeRect.x : x,
+            ["--cell-y" as string]: resizeRect ? resizeRect.y : y,
+            ["--cell-w" as string]: resizeRect ? resizeRect.w : w,
+            ["--cell-h" as string]: resizeRect ? resizeRect.h : h,
             ["--grid-cell-width" as string]: `${cellWidth}px`,
             ["--grid-cell-height" as string]: `${cellHeight}px`,
             transform: transform
@@ -145,11 +307,18 @@ function DraggableItemComponent({
           } as React.CSSProperties
         }
         ref={setNodeRef}
+        data-widget-id={id}
+        role="group"
+        aria-label={label ?? `Widget ${id}`}
+        aria-describedby={isEditing ? describedBy : undefined}
+        // Keyboard move/resize/delete is handled by the grid through event delegation
+        tabIndex={isEditing ? 0 : undefined}
+        onClick={handleClick}
       >
         {/* Drag handle */}
         <div className="drag-handle" {...listeners} {...attributes} />
 
-        {isEditing && onDelete && (
+        {isEditing && onDelete && !isStatic && (
           <button
             className="delete-handle"
             onClick={() => onDelete(id)}
@@ -164,11 +333,14 @@ function DraggableItemComponent({
           {children}
         </div>
 
-        <div
-          className="resize-handle"
-          onMouseDown={handleResizeStart}
-          data-no-dnd="true"
-        />
+        {!isStatic && isResizable && resizeHandles.map((handle) => (
+          <div
+            key={handle}
+            className={`resize-handle resize-handle-${handle}`}
+            onPointerDown={(e) => handleResizeStart(handle, e)}
+            data-no-dnd="true"
+          />
+        ))}
       </div>
 
       {previewState && (
@@ -1,19 +1,40 @@
-import { useState, useEffect, forwardRef, useImperativeHandle, useCallback, useMemo } from 'react';
+import { useState, useEffect, useRef, useId, forwardRef, useImperativeHandle, useCallback, useMemo } from 'react';
 import type { CSSProperties } from 'react';
 import { DndContext } from '@dnd-kit/core';
 import { DraggableItem } from './DraggableItem/DraggableItem';
-import type { WidgetState, GroupFilter, InteractionModes, AvailableWidget, WidgetPlacementState } from './types';
+import { useWidgetGridGroup } from './WidgetGridGroup/WidgetGridGroup';
+import type { GridGroupMember } from './WidgetGridGroup/WidgetGridGroup';
+import type { WidgetState, GroupFilter, InteractionModes, AvailableWidget, WidgetPlacementState, SerializedLayout, LayoutImportResult, CompactType, CollisionStrategy, Breakpoints, BreakpointLayouts, ResizeHandle, WidgetTransfer, LayoutAction, BeforeLayoutChange, GridError, GridResult, WidgetEditAction, CanEditWidget, WidgetSizeLimits, WidgetTypeDefinition } from './types';
 import { useWidgetActions } from './hooks/useWidgetActions';
-import { useDragHandling } from './hooks/useDragHandling';
+import { useDragHandling, getDraggedWidgetId } from './hooks/useDragHandling';
 import { useResponsiveGrid } from './hooks/useResponsiveGrid';
-import { validateWidgetPosition } from './utils/gridUtils';
+import { useBreakpointLayouts } from './hooks/useBreakpointLayouts';
+import { useWidgetSelection } from './hooks/useWidgetSelection';
+import { useVisibleCells } from './hooks/useVisibleCells';
+import { useEdgeAutoScroll } from './hooks/useEdgeAutoScroll';
+import { getLayoutBottom } from './utils/grid/gridPlacement';
+import { clampWidgetSize } from './utils/grid/gridMath';
+import { checkCollision, isStaticWidget } from './utils/grid/gridCollision';
+import { canEditWidget } from './utils/grid/gridPermissions';
+import { OccupancyIndex } from './utils/grid/gridOccupancy';
+import { serializeLayout, deserializeLayout } from './utils/layoutSerialization';
+import { createWidgetRegistry, toWidgetTypeDefinition, getWidgetLimits, applyWidgetType } from './utils/widgetTypes';
+import type { LayoutMigrations } from './utils/layoutSerialization';
 
 export interface GridConfig {
   cols: number;
   rows: number;
+  /** Fixed cell width in px; when set (with or without cellHeight) cells no longer scale */
   cellWidth?: number;
+  /** Fixed cell height in px; when set (with or without cellWidth) cells no longer scale */
   cellHeight?: number;
   preventOverlap?: boolean;
+  /** Float widgets up ('vertical') or left ('horizontal') into free space after every change */
+  compactType?: CompactType;
+  /** Grow the grid to fit the lowest widget; `rows` becomes the minimum height */
+  autoRows?: boolean;
+  /** Empty rows kept below the lowest widget when autoRows is enabled */
+  autoRowsPadding?: number;
   defaultWidgetSize?: { w: number; h: number };
   defaultSizeLimits?: {
     minW?: number;
@@ -26,15 +47,30 @@ export interface GridConfig {
 }
 
 interface WidgetGridProps extends GridConfig {
+  /** Uncontrolled starting layout; the grid reloads it whenever a new array is passed */
   initialWidgets?: WidgetState[];
+  /** Controlled layout; the grid only renders these and reports changes through onLayoutChange */
+  widgets?: WidgetState[];
+  /** Called with the new layout and the action (add/move/resize/delete/transfer/...) that produced it */
+  onLayoutChange?: (widgets: WidgetState[], action: LayoutAction) => void;
+  /** Return false to veto a change, or a layout to apply instead */
+  onBeforeChange?: BeforeLayoutChange;
+  /** Called when an action cannot be carried out (NO_SPACE, OUT_OF_BOUNDS, COLLISION, ...) */
+  onError?: (error: GridError) => void;
   defaultEditMode?: boolean;
   onWidgetsChange?: (widgets: WidgetState[]) => void;
   onWidgetAdd?: (widget: WidgetState) => void;
   onWidgetMove?: (widget: WidgetState) => void;
   onWidgetResize?: (widget: WidgetState) => void;
+  /** Called when a resize gesture becomes active */
+  onResizeStart?: (widget: WidgetState) => void;
+  /** Called when a resize gesture ends with the released size; cancelled is true after Escape */
+  onResizeEnd?: (widget: WidgetState, cancelled: boolean) => void;
   onEditModeChange?: (isEditing: boolean) => void;
   onWidgetDelete?: (widgetId: string) => void;
   widgetRenderers?: { [type: string]: React.ComponentType<any> };
+  /** Per-type size limits, default props and renderer; merged over availableWidgets and widgetRenderers */
+  widgetTypes?: WidgetTypeDefinition[];
   showControls?: boolean;
   // Enhanced API for streamlined widget adding
   addWidgetTrigger?: {
@@ -55,17 +91,87 @@ interface WidgetGridProps extends GridConfig {
   enableHoverToAdd?: boolean;
   /** Available widget types that can be added via hover-to-add */
   availableWidgets?: AvailableWidget[];
+
+  // Undo/redo
+  /** Maximum number of undo steps kept (0 disables history) */
+  historyDepth?: number;
+
+  /** 'push' shifts colliding widgets along the drag direction; 'relocate' moves them to the first free slot */
+  collisionStrategy?: CollisionStrategy;
+  /** Groups whose widgets behave as static: no drag, resize or delete, and others are routed around them */
+  lockedGroups?: string[];
+  /** Return false to forbid moving, resizing or deleting a widget; checked after the widget's own flags */
+  canEdit?: CanEditWidget;
+
+  // Responsive breakpoints
+  /** Named breakpoints with their own column count, e.g. { lg: { minWidth: 1200, cols: 24 } } */
+  breakpoints?: Breakpoints;
+  /** Stored layouts per breakpoint; missing ones are derived from the nearest larger breakpoint */
+  layouts?: BreakpointLayouts;
+  onBreakpointChange?: (breakpoint: string, cols: number) => void;
+  onLayoutsChange?: (layouts: BreakpointLayouts) => void;
+
+  /** Fit the grid into the parent's height as well as its width */
+  fitContainerHeight?: boolean;
+
+  /** Touch/pen hold time (ms) before a resize handle activates; 0 starts immediately */
+  resizeLongPressDelay?: number;
+  /** Resize handles shown on every widget unless the widget sets its own */
+  resizeHandles?: ResizeHandle[];
+
+  // Virtualization
+  /** Mount only the widgets inside the scroll viewport; the others render as empty placeholders */
+  virtualize?: boolean;
+  /** Rows and columns mounted beyond each edge of the viewport when virtualized */
+  overscan?: number;
+
+  // Auto-scroll
+  /** Scroll the nearest scroll container when the pointer nears its edges while dragging, resizing or placing */
+  autoScroll?: boolean;
+  /** Distance in px from an edge where auto-scroll starts */
+  autoScrollThreshold?: number;
+  /** Maximum auto-scroll speed in px per frame */
+  autoScrollSpeed?: number;
+
+  // Selection
+  /** Called with the selected widget ids whenever the selection changes */
+  onSelectionChange?: (selectedIds: string[]) => void;
+
+  // Cross-grid transfer (inside a WidgetGridGroup)
+  /** Identifies the grid in transfer callbacks; generated when omitted */
+  gridId?: string;
+  /** Return false to reject a widget dragged in from another grid (fromGridId is null for palette items); grids only accept drops in edit mode */
+  acceptWidget?: (widget: WidgetState, fromGridId: string | null) => boolean;
+  /** Called on both the source and the target grid after a widget moved between them */
+  onWidgetTransfer?: (transfer: WidgetTransfer) => void;
 }
 
 export interface WidgetGridRef {
-  addWidget: (type?: string, props?: Record<string, any>) => void;
+  /** size defaults to the type's defaultSize and is fitted to the type's limits */
+  addWidget: (type?: string, props?: Record<string, any>, size?: { w: number; h: number }) => GridResult<WidgetState>;
   toggleEditMode: () => void;
   setEditMode: (enabled: boolean) => void;
   getEditMode: () => boolean;
-  clearAllWidgets: () => void;
+  clearAllWidgets: () => GridResult;
   // Simple group filtering
   setGroupVisible: (groupId: string, visible: boolean) => void;
   getVisibleGroups: () => string[];
+  // Undo/redo
+  undo: () => boolean;
+  redo: () => boolean;
+  canUndo: () => boolean;
+  canRedo: () => boolean;
+  // Layout import/export
+  exportLayout: () => SerializedLayout;
+  importLayout: (layout: string | SerializedLayout, migrations?: LayoutMigrations) => LayoutImportResult;
+  // Selection
+  getSelectedIds: () => string[];
+  setSelectedIds: (ids: string[]) => void;
+  clearSelection: () => void;
+  /** Resolves to the ids of the deleted widgets */
+  deleteSelected: () => GridResult<string[]>;
+  /** Copies the selected widgets into free space and selects the copies */
+  duplicateSelected: () => GridResult<string[]>;
 }
 
 const getCSSVariable = (name: string, fallback: number): number => {
@@ -76,43 +182,104 @@ const getCSSVariable = (name: string, fallback: number): number => {
   return value ? parseInt(value) : fallback;
 };
 
+/** Pointer travel (px) before a press on empty grid space starts a marquee */
+const MARQUEE_THRESHOLD = 4;
+
+// Stable default so the initialWidgets sync effect only runs when the prop changes
+const NO_WIDGETS: WidgetState[] = [];
+// Stable defaults so the widget type registry is only rebuilt when a source changes
+const NO_AVAILABLE_WIDGETS: AvailableWidget[] = [];
+const NO_WIDGET_TYPES: WidgetTypeDefinition[] = [];
+
 const DEFAULT_CONFIG: Required<GridConfig> = {
   cols: 24,
   rows: 12,
   cellWidth: 50,
   cellHeight: 50,
   preventOverlap: false,
+  compactType: 'none',
+  autoRows: false,
+  autoRowsPadding: 2,
   defaultWidgetSize: { w: 3, h: 2 },
   defaultSizeLimits: { minW: 2, minH: 2, maxW: 12, maxH: 8 },
   className: '',
   style: {}
 };
 
+const DEFAULT_RESIZE_HANDLES: ResizeHandle[] = ['se'];
+
+interface CachedItemProps {
+  dragData: { gridId: string; widgetId: string };
+  sizeStep?: { w?: number; h?: number };
+  Renderer?: React.ComponentType<any>;
+  props?: Record<string, any>;
+  content: React.ReactNode;
+}
+
+// Text fields inside renderers keep their native undo and Escape
+const isEditableElement = (element: HTMLElement) =>
+  element.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(element.tagName);
+
 export const WidgetGrid = forwardRef<WidgetGridRef, WidgetGridProps>(({
-  cols = DEFAULT_CONFIG.cols,
+  cols: baseCols = DEFAULT_CONFIG.cols,
   rows = DEFAULT_CONFIG.rows,
+  cellWidth: fixedCellWidth,
+  cellHeight: fixedCellHeight,
   preventOverlap = DEFAULT_CONFIG.preventOverlap,
+  compactType = DEFAULT_CONFIG.compactType,
+  autoRows = DEFAULT_CONFIG.autoRows,
+  autoRowsPadding = DEFAULT_CONFIG.autoRowsPadding,
   defaultWidgetSize = DEFAULT_CONFIG.defaultWidgetSize,
   defaultSizeLimits = DEFAULT_CONFIG.defaultSizeLimits,
   className = DEFAULT_CONFIG.className,
   style = DEFAULT_CONFIG.style,
-  initialWidgets: externalWidgets = [],
+  initialWidgets: externalWidgets = NO_WIDGETS,
+  widgets: controlledWidgets,
+  onLayoutChange,
+  onBeforeChange,
+  onError,
   defaultEditMode = false,
   onWidgetsChange,
   onWidgetAdd,
   onWidgetMove,
   onWidgetResize,
+  onResizeStart,
+  onResizeEnd,
   onEditModeChange,
   onWidgetDelete,
   widgetRenderers,
+  widgetTypes = NO_WIDGET_TYPES,
   showControls = false,
   addWidgetTrigger,
   groupFilters = [],
   onGroupFiltersChange,
   interactionModes = {},
   enableHoverToAdd = false,
-  availableWidgets = [],
+  availableWidgets = NO_AVAILABLE_WIDGETS,
+  historyDepth = 50,
+  collisionStrategy = 'relocate',
+  lockedGroups,
+  canEdit,
+  breakpoints,
+  layouts,
+  onBreakpointChange,
+  onLayoutsChange,
+  fitContainerHeight = false,
+  resizeLongPressDelay = 0,
+  resizeHandles = DEFAULT_RESIZE_HANDLES,
+  virtualize = false,
+  overscan = 2,
+  autoScroll = true,
+  autoScrollThreshold = 40,
+  autoScrollSpeed = 15,
+  onSelectionChange,
+  gridId: gridIdProp,
+  acceptWidget,
+  onWidgetTransfer,
 }, ref) => {
+  const generatedGridId = useId();
+  const gridId = gridIdProp ?? generatedGridId;
+  const group = useWidgetGridGroup();
   const [isEditing, setIsEditing] = useState(defaultEditMode);
   const [hiddenGroups, setHiddenGroups] = useState<Set<string>>(new Set());
   
@@ -120,6 +287,20 @@ export const WidgetGrid = forwardRef<WidgetGridRef, WidgetGridProps>(({
   const [hoverCell, setHoverCell] = useState<{x: number, y: number} | null>(null);
   const [showWidgetSelector, setShowWidgetSelector] = useState<{x: number, y: number} | null>(null);
   const [placementMode, setPlacementMode] = useState<WidgetPlacementState | null>(null);
+  const [resizingId, setResizingId] = useState<string | null>(null);
+  const gridInnerRef = useRef<HTMLDivElement>(null);
+
+  // Size limits, default props and renderer per widget type
+  const widgetRegistry = useMemo(
+    () => createWidgetRegistry({ availableWidgets, widgetRenderers, widgetTypes }),
+    [availableWidgets, widgetRenderers, widgetTypes]
+  );
+
+  // A widget's own limits, then its type's, then defaultSizeLimits
+  const getLimits = useCallback(
+    (widget: Pick<WidgetState, 'type'> & WidgetSizeLimits) => getWidgetLimits(widget, widgetRegistry, defaultSizeLimits),
+    [defaultSizeLimits, widgetRegistry]
+  );
 
   // Compute effective interaction modes
   const effectiveInteractionModes = useMemo(() => {
@@ -143,6 +324,19 @@ export const WidgetGrid = forwardRef<WidgetGridRef, WidgetGridProps>(({
     return { editable, draggable, resizable, viewMode };
   }, [interactionModes]);
 
+  // Widget flags (isDraggable/isResizable/isDeletable) override the grid-wide modes above
+  const isWidgetEditable = useCallback((widget: WidgetState, action: WidgetEditAction) =>
+    canEditWidget(widget, action, {
+      lockedGroups,
+      canEdit,
+      gridDefault: action === 'move'
+        ? effectiveInteractionModes.draggable
+        : action === 'resize'
+          ? effectiveInteractionModes.resizable
+          : effectiveInteractionModes.editable
+    }),
+  [lockedGroups, canEdit, effectiveInteractionModes]);
+
   // Create a map of group visibility for quick lookup
   const groupVisibility = useMemo(() => {
     const visibility = new Map<string, boolean>();
@@ -152,36 +346,103 @@ export const WidgetGrid = forwardRef<WidgetGridRef, WidgetGridProps>(({
     return visibility;
   }, [groupFilters]);
 
+  // Row count used for placement and reflow; unbounded when the grid grows with its content
+  const layoutRows = autoRows ? Infinity : rows;
+
+  // Responsive grid hook; the active breakpoint decides the column count
+  const {
+    containerRef,
+    cols,
+    breakpoint,
+    cellWidth,
+    cellHeight,
+    gridWidth,
+    gridHeight: fixedGridHeight
+  } = useResponsiveGrid({
+    cols: baseCols,
+    rows,
+    autoRows,
+    breakpoints,
+    cellWidth: fixedCellWidth,
+    cellHeight: fixedCellHeight,
+    fitHeight: fitContainerHeight
+  });
+
+  // Per-breakpoint layouts
+  const { activeLayout, storeLayout } = useBreakpointLayouts({
+    breakpoints,
+    breakpoint,
+    layouts,
+    initialWidgets: externalWidgets,
+    rows: layoutRows,
+    preventOverlap,
+    onBreakpointChange,
+    onLayoutsChange
+  });
+
+  const handleWidgetsChange = useCallback((widgets: WidgetState[]) => {
+    if (breakpoints) {
+      storeLayout(widgets);
+    }
+    onWidgetsChange?.(widgets);
+  }, [breakpoints, storeLayout, onWidgetsChange]);
+
   // Widget management hook
   const {
-    widgets: internalWidgets,
+    widgets: displayWidgets,
+    engine,
     addWidget,
-  addWidgetFromExternal,
+    placeWidget,
+    findPlacement,
+    addWidgetFromExternal,
+    releaseWidget,
     moveWidget,
+    moveWidgets,
     resizeWidget,
     deleteWidget,
-    setInitialWidgets
+    deleteWidgets,
+    duplicateWidgets,
+    replaceWidgets,
+    setInitialWidgets,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    clearHistory
   } = useWidgetActions({
     cols,
-    rows,
+    rows: layoutRows,
     preventOverlap,
     defaultWidgetSize,
+    defaultSizeLimits,
+    widgetTypes: widgetRegistry,
+    compactType,
+    collisionStrategy,
+    lockedGroups,
+    canEdit,
     initialWidgets: externalWidgets,
+    widgets: controlledWidgets,
+    historyDepth,
     onWidgetAdd,
     onWidgetMove,
     onWidgetResize,
     onWidgetDelete,
-    onWidgetsChange,
+    onWidgetsChange: handleWidgetsChange,
+    onLayoutChange,
+    onBeforeChange,
+    onError,
   });
 
-  // Responsive grid hook
-  const { cellWidth, cellHeight, gridWidth, gridHeight } = useResponsiveGrid({
-    cols,
-    rows
-  });
-
-  // Use external widgets if provided, otherwise use internal state
-  const displayWidgets = externalWidgets.length > 0 ? externalWidgets : internalWidgets;
+  // Load the layout of the active breakpoint; undo history does not cross breakpoints
+  const loadedBreakpoint = useRef(breakpoint);
+  useEffect(() => {
+    if (!breakpoints) return;
+    if (loadedBreakpoint.current !== breakpoint) {
+      loadedBreakpoint.current = breakpoint;
+      clearHistory();
+    }
+    setInitialWidgets(activeLayout);
+  }, [breakpoints, breakpoint, activeLayout, setInitialWidgets, clearHistory]);
 
   // Filter widgets based on group visibility
   const filteredWidgets = useMemo(() => {
@@ -201,6 +462,57 @@ export const WidgetGrid = forwardRef<WidgetGridRef, WidgetGridProps>(({
     });
   }, [displayWidgets, groupFilters, hiddenGroups]);
 
+  // Selection of visible widgets
+  const {
+    selectedIds,
+    setSelectedIds,
+    selectWidget,
+    clearSelection
+  } = useWidgetSelection({ widgets: filteredWidgets, onSelectionChange });
+
+  // Selected widgets that a group drag may move
+  const movableSelectedIds = useMemo(() => selectedIds.filter(id => {
+    const widget = filteredWidgets.find(w => w.id === id);
+    return !!widget && isWidgetEditable(widget, 'move');
+  }), [selectedIds, filteredWidgets, isWidgetEditable]);
+
+  // Cell index of the visible widgets for hover-to-add; kept across renders
+  // so only the widgets that changed are re-indexed
+  const occupancyRef = useRef<OccupancyIndex | null>(null);
+  const occupancy = useMemo(() => {
+    if (occupancyRef.current?.cols !== cols) {
+      occupancyRef.current = new OccupancyIndex(cols);
+    }
+    occupancyRef.current.sync(filteredWidgets);
+    return occupancyRef.current;
+  }, [filteredWidgets, cols]);
+
+  // Object props and content of the memoized DraggableItems, reused per widget until their inputs
+  // change so moving one widget or updating a preview does not re-render the others
+  const itemPropsRef = useRef(new Map<string, CachedItemProps>());
+  const itemProps = useMemo(() => {
+    const previous = itemPropsRef.current;
+    const next = new Map<string, CachedItemProps>();
+    filteredWidgets.forEach(widget => {
+      const cached = previous.get(widget.id);
+      const Renderer = widgetRegistry[widget.type]?.renderer;
+      const sizeStep = getLimits(widget).sizeStep;
+      next.set(widget.id, {
+        dragData: cached?.dragData.gridId === gridId ? cached.dragData : { gridId, widgetId: widget.id },
+        sizeStep: cached && cached.sizeStep?.w === sizeStep?.w && cached.sizeStep?.h === sizeStep?.h
+          ? cached.sizeStep
+          : sizeStep,
+        Renderer,
+        props: widget.props,
+        content: cached && cached.Renderer === Renderer && cached.props === widget.props
+          ? cached.content
+          : Renderer ? <Renderer {...(widget.props || {})} /> : <div style={{ padding: '1rem' }}>Widget {widget.id}</div>
+      });
+    });
+    itemPropsRef.current = next;
+    return next;
+  }, [filteredWidgets, widgetRegistry, getLimits, gridId]);
+
   // Drag handling hook
   const {
     draggedId,
@@ -208,29 +520,68 @@ export const WidgetGrid = forwardRef<WidgetGridRef, WidgetGridProps>(({
     handleDragStart: baseDragStart,
     handleDragMove: baseDragMove,
     handleDragEnd: baseHandleDragEnd,
-    handleDragCancel: baseDragCancel
+    handleDragCancel: baseDragCancel,
+    updateResizePreview,
+    commitResize,
+    clearPreview,
+    updateExternalPreview
   } = useDragHandling({
     widgets: filteredWidgets,
     cols,
-    rows,
+    rows: layoutRows,
     cellWidth,
     cellHeight,
-    onWidgetMove: effectiveInteractionModes.draggable ? moveWidget : () => {}
+    engine,
+    lockedGroups,
+    onWidgetMove: moveWidget,
+    onWidgetResize: resizeWidget,
+    selectedIds: movableSelectedIds,
+    onWidgetsMove: moveWidgets,
+    gridRef: gridInnerRef
+  });
+
+  // Grids in a WidgetGridGroup leave drags to the group's DndContext auto-scroll, which follows cross-grid moves
+  useEdgeAutoScroll({
+    active: autoScroll && ((!!draggedId && !group) || !!resizingId || !!placementMode),
+    gridRef: gridInnerRef,
+    threshold: autoScrollThreshold,
+    speed: autoScrollSpeed
   });
 
+  // Rows actually rendered; in autoRows mode this follows the lowest widget or preview
+  const displayRows = useMemo(() => {
+    if (!autoRows) return rows;
+    const previews = preview ? [preview, ...(preview.reflowPreviews || [])] : [];
+    const placement = placementMode
+      ? [{ y: placementMode.startY, height: placementMode.currentH }]
+      : [];
+    return Math.max(rows, getLayoutBottom([...displayWidgets, ...previews, ...placement]) + autoRowsPadding);
+  }, [autoRows, rows, autoRowsPadding, displayWidgets, preview, placementMode]);
+
+  const gridHeight = autoRows ? displayRows * cellHeight : fixedGridHeight;
+
   // Simple drag handlers
+  const canDragActive = (event: any) => {
+    const widget = filteredWidgets.find(w => w.id === getDraggedWidgetId(event.active));
+    return !!widget && isWidgetEditable(widget, 'move');
+  };
+
   const handleDragStart = (event: any) => {
-    if (!effectiveInteractionModes.draggable) return;
+    if (!canDragActive(event)) return;
+    // Dragging an unselected widget moves it alone
+    if (!selectedIds.includes(getDraggedWidgetId(event.active))) {
+      clearSelection();
+    }
     baseDragStart(event);
   };
 
   const handleDragMove = (event: any) => {
-    if (!effectiveInteractionModes.draggable) return;
+    if (!canDragActive(event)) return;
     baseDragMove(event);
   };
 
   const handleDragEnd = (event: any) => {
-    if (!effectiveInteractionModes.draggable) return;
+    if (!canDragActive(event)) return;
     baseHandleDragEnd(event);
   };
 
@@ -238,13 +589,98 @@ export const WidgetGrid = forwardRef<WidgetGridRef, WidgetGridProps>(({
     baseDragCancel();
   };
 
+  // Registration with an enclosing WidgetGridGroup; read lazily so the group always sees this render
+  const groupMember = useRef<GridGroupMember | null>(null);
+  groupMember.current = {
+    getElement: () => gridInnerRef.current,
+    cellWidth,
+    cellHeight,
+    getWidget: (id: string) => displayWidgets.find(w => w.id === id),
+    isGroupDrag: (id: string) => movableSelectedIds.length > 1 && movableSelectedIds.includes(id),
+    canAccept: (widget: WidgetState, fromGridId: string | null) =>
+      isEditing && effectiveInteractionModes.editable && acceptWidget?.(widget, fromGridId) !== false,
+    onDragStart: handleDragStart,
+    onDragMove: handleDragMove,
+    onDragEnd: handleDragEnd,
+    onDragCancel: handleDragCancel,
+    clearPreview,
+    previewIncoming: (incoming: WidgetState | null) => {
+      if (!incoming) return updateExternalPreview(null);
+      // Preview the size the widget gets once this grid's type and default limits apply
+      const widget = applyWidgetType(incoming, widgetRegistry, defaultSizeLimits);
+      const width = Math.min(widget.width, cols);
+      const height = Math.min(widget.height, layoutRows);
+      return updateExternalPreview({
+        ...widget,
+        // The preview must not be mistaken for a widget of this grid with the same id
+        id: displayWidgets.some(w => w.id === widget.id) ? `${widget.id}-incoming` : widget.id,
+        width,
+        height,
+        x: Math.max(0, Math.min(cols - width, widget.x)),
+        y: Math.max(0, Math.min(layoutRows - height, widget.y))
+      });
+    },
+    receiveWidget: (widget: WidgetState) => {
+      const result = addWidgetFromExternal(widget);
+      return result.ok ? result.value : null;
+    },
+    canRelease: (id: string) => engine.plan({ type: 'release', id }).ok,
+    releaseWidget: (id: string) => releaseWidget(id).ok,
+    onTransfer: (transfer: WidgetTransfer) => onWidgetTransfer?.(transfer),
+    createWidget: (widgetType: AvailableWidget, cell: { x: number; y: number }) => {
+      // Palette items of types this grid does not know bring their own limits
+      const registry = widgetRegistry[widgetType.type]
+        ? widgetRegistry
+        : { ...widgetRegistry, [widgetType.type]: toWidgetTypeDefinition(widgetType) };
+      const definition = registry[widgetType.type];
+      return applyWidgetType({
+        id: `${widgetType.type}-${Date.now()}`,
+        type: widgetType.type,
+        ...clampWidgetSize(
+          definition.defaultSize?.w ?? defaultWidgetSize.w,
+          definition.defaultSize?.h ?? defaultWidgetSize.h,
+          getWidgetLimits(widgetType, registry, defaultSizeLimits)
+        ),
+        ...cell
+      }, registry);
+    },
+    previewNewWidget: (widget: WidgetState | null) => {
+      if (!widget) {
+        updateExternalPreview(null);
+        return null;
+      }
+      const placement = findPlacement(widget);
+      updateExternalPreview(placement.ok ? placement.value : widget, placement.ok);
+      return placement.ok ? placement.value : null;
+    },
+    addNewWidget: (widget: WidgetState) => {
+      placeWidget(widget);
+    }
+  };
+
+  useEffect(() => {
+    if (!group) return;
+    return group.register(gridId, () => groupMember.current!);
+  }, [group, gridId]);
+
+  const handleResizeStart = useCallback((id: string) => {
+    setResizingId(id);
+    const widget = engine.getWidgets().find(w => w.id === id);
+    if (widget) onResizeStart?.(widget);
+  }, [engine, onResizeStart]);
+
+  const handleResizeEnd = useCallback((
+    id: string,
+    rect: { x: number; y: number; width: number; height: number } | null
+  ) => {
+    setResizingId(null);
+    // The engine holds the committed layout already, so this is the size that was actually applied
+    const widget = engine.getWidgets().find(w => w.id === id);
+    if (widget) onResizeEnd?.(widget, rect === null);
+  }, [engine, onResizeEnd]);
+
   // Hover-to-add functionality
-  const checkIsEmptyCell = useCallback((x: number, y: number) => {
-    return !filteredWidgets.some(w => 
-      x >= w.x && x < w.x + w.width && 
-      y >= w.y && y < w.y + w.height
-    );
-  }, [filteredWidgets]);
+  const checkIsEmptyCell = useCallback((x: number, y: number) => occupancy.isCellFree(x, y), [occupancy]);
 
   const handleGridMouseMove = useCallback((e: React.MouseEvent) => {
     if (!enableHoverToAdd || !isEditing || !effectiveInteractionModes.editable || placementMode) {
@@ -257,12 +693,12 @@ export const WidgetGrid = forwardRef<WidgetGridRef, WidgetGridProps>(({
     const y = Math.floor((e.clientY - rect.top) / cellHeight);
     
     // Check bounds and if cell is empty
-    if (x >= 0 && x < cols && y >= 0 && y < rows && checkIsEmptyCell(x, y)) {
+    if (x >= 0 && x < cols && y >= 0 && y < displayRows && checkIsEmptyCell(x, y)) {
       setHoverCell({ x, y });
     } else {
       setHoverCell(null);
     }
-  }, [enableHoverToAdd, isEditing, effectiveInteractionModes.editable, placementMode, cellWidth, cellHeight, cols, rows, checkIsEmptyCell]);
+  }, [enableHoverToAdd, isEditing, effectiveInteractionModes.editable, placementMode, cellWidth, cellHeight, cols, displayRows, checkIsEmptyCell]);
 
   const handleGridMouseLeave = useCallback(() => {
     setHoverCell(null);
@@ -277,20 +713,34 @@ export const WidgetGrid = forwardRef<WidgetGridRef, WidgetGridProps>(({
   const startWidgetPlacement = useCallback((widgetType: AvailableWidget, startCell: {x: number, y: number}) => {
     setShowWidgetSelector(null);
     
-    // Respect minimum size constraints with proper fallbacks
-    const defaultW = widgetType.defaultSize?.w ?? 2;
-    const defaultH = widgetType.defaultSize?.h ?? 2;
-    const minW = widgetType.minSize?.w ?? defaultSizeLimits?.minW ?? 2;
-    const minH = widgetType.minSize?.h ?? defaultSizeLimits?.minH ?? 2;
-    
+    // Respect the type's size limits with proper fallbacks
+    const definition = widgetRegistry[widgetType.type];
+    const { width, height } = clampWidgetSize(
+      definition?.defaultSize?.w ?? widgetType.defaultSize?.w ?? 2,
+      definition?.defaultSize?.h ?? widgetType.defaultSize?.h ?? 2,
+      getLimits({ type: widgetType.type })
+    );
     setPlacementMode({
       type: widgetType.type,
       startX: startCell.x,
       startY: startCell.y,
-      currentW: Math.max(minW, defaultW),
-      currentH: Math.max(minH, defaultH)
+      currentW: width,
+      currentH: height
     });
-  }, [defaultSizeLimits]);
+  }, [widgetRegistry, getLimits]);
+
+  // Whether the placement preview overlaps a widget; checked against the engine once it holds
+  // the rendered layout, since the engine is only read outside render
+  const [placementBlocked, setPlacementBlocked] = useState(false);
+  useEffect(() => {
+    if (!placementMode) return;
+    setPlacementBlocked(!engine.getOccupancy().isAreaFree({
+      x: placementMode.startX,
+      y: placementMode.startY,
+      width: placementMode.currentW,
+      height: placementMode.currentH
+    }));
+  }, [engine, placementMode, displayWidgets]);
 
   const handlePlacementMouseMove = useCallback((e: React.MouseEvent) => {
     if (!placementMode) return;
@@ -299,17 +749,23 @@ export const WidgetGrid = forwardRef<WidgetGridRef, WidgetGridProps>(({
     const endX = Math.floor((e.clientX - rect.left) / cellWidth);
     const endY = Math.floor((e.clientY - rect.top) / cellHeight);
     
-    // Find the widget type configuration to get minimum size with proper fallbacks
-    const widgetType = availableWidgets.find(w => w.type === placementMode.type);
-    const minW = widgetType?.minSize?.w ?? defaultSizeLimits?.minW ?? 2;
-    const minH = widgetType?.minSize?.h ?? defaultSizeLimits?.minH ?? 2;
+    // Size limits of the widget type being placed, including maxSize
+    const limits = getLimits({ type: placementMode.type });
     
-    setPlacementMode(prev => prev ? {
-      ...prev,
-      currentW: Math.max(minW, Math.min(cols - prev.startX, endX - prev.startX + 1)),
-      currentH: Math.max(minH, Math.min(rows - prev.startY, endY - prev.startY + 1))
-    } : null);
-  }, [placementMode, cellWidth, cellHeight, cols, rows, availableWidgets, defaultSizeLimits]);
+    setPlacementMode(prev => {
+      if (!prev) return null;
+      const requestedW = endX - prev.startX + 1;
+      const requestedH = endY - prev.startY + 1;
+      // With an aspect ratio the dimension the pointer moved furthest in decides the size
+      const { width, height } = clampWidgetSize(requestedW, requestedH, {
+        ...limits,
+        maxW: Math.min(limits.maxW ?? Infinity, cols - prev.startX),
+        maxH: Math.min(limits.maxH ?? Infinity, layoutRows - prev.startY)
+      }, Math.abs(requestedW - prev.currentW) >= Math.abs(requestedH - prev.currentH) ? 'width' : 'height');
+      if (width === prev.currentW && height === prev.currentH) return prev;
+      return { ...prev, currentW: width, currentH: height };
+    });
+  }, [placementMode, cellWidth, cellHeight, cols, layoutRows, getLimits]);
 
   const handlePlacementClick = useCallback(() => {
     if (!placementMode) return;
@@ -324,42 +780,195 @@ export const WidgetGrid = forwardRef<WidgetGridRef, WidgetGridProps>(({
       type: placementMode.type
     };
     
-    // Check for collisions with existing widgets
-    const hasCollision = displayWidgets.some(existingWidget => 
-      newWidget.x < existingWidget.x + existingWidget.width &&
-      newWidget.x + newWidget.width > existingWidget.x &&
-      newWidget.y < existingWidget.y + existingWidget.height &&
-      newWidget.y + newWidget.height > existingWidget.y
-    );
-    
-    if (hasCollision && preventOverlap) {
-      // If collision detected and preventOverlap is enabled, try to find a new position
-      const { isValid, suggestedPosition } = validateWidgetPosition(
-        newWidget,
-        displayWidgets,
-        cols,
-        rows,
-        true
+    // Taken cells fall back to the first free slot; no room is reported through onError
+    placeWidget(newWidget, true);
+    setPlacementMode(null);
+  }, [placementMode, placeWidget]);
+
+  // Rubber-band selection: drag across empty grid space in edit mode
+  const [marquee, setMarquee] = useState<{ startX: number; startY: number; endX: number; endY: number } | null>(null);
+
+  const handleMarqueeStart = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+    if (!isEditing || !effectiveInteractionModes.editable || placementMode) return;
+    if (e.target !== e.currentTarget || (e.pointerType === 'mouse' && e.button !== 0)) return;
+
+    const origin = e.currentTarget.getBoundingClientRect();
+    const startX = e.clientX - origin.left;
+    const startY = e.clientY - origin.top;
+    const baseSelection = e.shiftKey || e.ctrlKey || e.metaKey ? selectedIds : [];
+    let moved = false;
+
+    const handleMove = (event: PointerEvent) => {
+      // The grid element may be re-rendered mid-gesture; measure the current one
+      const rect = gridInnerRef.current?.getBoundingClientRect() ?? origin;
+      const endX = event.clientX - rect.left;
+      const endY = event.clientY - rect.top;
+      if (!moved && Math.hypot(endX - startX, endY - startY) < MARQUEE_THRESHOLD) return;
+      moved = true;
+      setMarquee({ startX, startY, endX, endY });
+
+      const left = Math.min(startX, endX) / cellWidth;
+      const right = Math.max(startX, endX) / cellWidth;
+      const top = Math.min(startY, endY) / cellHeight;
+      const bottom = Math.max(startY, endY) / cellHeight;
+      const hits = filteredWidgets
+        .filter(w => w.x < right && w.x + w.width > left && w.y < bottom && w.y + w.height > top)
+        .map(w => w.id);
+      setSelectedIds([...baseSelection, ...hits]);
+    };
+
+    const handleUp = () => {
+      document.removeEventListener('pointermove', handleMove);
+      document.removeEventListener('pointerup', handleUp);
+      document.removeEventListener('pointercancel', handleUp);
+      setMarquee(null);
+      // A plain click on empty space clears the selection
+      if (!moved) setSelectedIds(baseSelection);
+    };
+
+    document.addEventListener('pointermove', handleMove);
+    document.addEventListener('pointerup', handleUp);
+    document.addEventListener('pointercancel', handleUp);
+  }, [isEditing, effectiveInteractionModes.editable, placementMode, selectedIds, cellWidth, cellHeight,
+      filteredWidgets, setSelectedIds]);
+
+  // Ctrl+Z / Ctrl+Shift+Z (and Ctrl+Y) while the grid is focused in edit mode; Escape clears the selection
+  const handleGridKeyDown = useCallback((e: React.KeyboardEvent) => {
+    if (!isEditing || !effectiveInteractionModes.editable) return;
+    // Only keys pressed on the grid itself or a widget wrapper, not inside a renderer's controls
+    const target = e.target as HTMLElement;
+    if (
+      isEditableElement(target) ||
+      (target !== e.currentTarget && target !== gridInnerRef.current && !target.dataset.widgetId)
+    ) {
+      return;
+    }
+    if (e.key === 'Escape' && !e.defaultPrevented && selectedIds.length > 0) {
+      e.preventDefault();
+      clearSelection();
+      return;
+    }
+    if (!(e.ctrlKey || e.metaKey)) return;
+
+    const key = e.key.toLowerCase();
+    if (key === 'z' && !e.shiftKey) {
+      e.preventDefault();
+      undo();
+    } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+      e.preventDefault();
+      redo();
+    }
+  }, [isEditing, effectiveInteractionModes.editable, selectedIds, clearSelection, undo, redo]);
+
+  // Virtualization: widgets outside these cells render as placeholders unless they are being
+  // dragged, resized or are selected (keyboard actions and focus need them mounted)
+  const visibleCells = useVisibleCells({ enabled: virtualize, gridRef: gridInnerRef, cellWidth, cellHeight, overscan });
+  const isWidgetMounted = (widget: WidgetState) =>
+    !visibleCells ||
+    checkCollision(widget, visibleCells) ||
+    widget.id === draggedId ||
+    widget.id === resizingId ||
+    selectedIds.includes(widget.id) ||
+    !!preview?.groupPreviews?.some(p => p.id === widget.id);
+  const keyboardInstructionsId = useId();
+  const [announcement, setAnnouncement] = useState('');
+  const pendingAnnouncement = useRef<string | null>(null);
+  // Layout before the focused widget's current run of arrow key edits, restored by Escape, and the
+  // layout its last edit produced. Any other commit ends the session (arrow keys start it again
+  // after their own commit), and so does a layout replaced without one, e.g. by the widgets prop.
+  const keyboardSession = useRef<{ id: string; widgets: WidgetState[]; layout: WidgetState[] } | null>(null);
+  useEffect(() => engine.subscribe(() => {
+    keyboardSession.current = null;
+  }), [engine]);
+  const getKeyboardSession = useCallback((id: string) => {
+    const session = keyboardSession.current;
+    return session?.id === id && session.layout === engine.getWidgets() ? session : null;
+  }, [engine]);
+
+  // Keyboard move/resize/delete for focused widgets
+  const handleWidgetKeyDown = useCallback((e: React.KeyboardEvent) => {
+    const target = e.target as HTMLElement;
+    const id = target.dataset.widgetId;
+    if (!id || !isEditing || !effectiveInteractionModes.editable) return;
+
+    const widget = displayWidgets.find(w => w.id === id);
+    if (!widget) return;
+
+    const steps: { [key: string]: [number, number] } = {
+      ArrowLeft: [-1, 0],
+      ArrowRight: [1, 0],
+      ArrowUp: [0, -1],
+      ArrowDown: [0, 1]
+    };
+    const step = steps[e.key];
+
+    if (step && e.shiftKey) {
+      e.preventDefault();
+      if (!isWidgetEditable(widget, 'resize')) return;
+      // One key press changes the size by one sizeStep
+      const limits = getLimits(widget);
+      const { width, height } = clampWidgetSize(
+        widget.width + step[0] * (limits.sizeStep?.w ?? 1),
+        widget.height + step[1] * (limits.sizeStep?.h ?? 1),
+        {
+          ...limits,
+          maxW: Math.min(limits.maxW ?? Infinity, cols - widget.x),
+          maxH: Math.min(limits.maxH ?? Infinity, layoutRows - widget.y)
+        },
+        step[0] !== 0 ? 'width' : 'height'
       );
-      
-      if (!isValid && suggestedPosition) {
-        newWidget.x = suggestedPosition.x;
-        newWidget.y = suggestedPosition.y;
-      } else if (!isValid) {
-        // Can't place widget anywhere, cancel placement
-        setPlacementMode(null);
-        return;
+      if (width === widget.width && height === widget.height) return;
+      const before = getKeyboardSession(id)?.widgets ?? engine.getWidgets();
+      if (!resizeWidget(id, width, height).ok) return;
+      keyboardSession.current = { id, widgets: before, layout: engine.getWidgets() };
+      pendingAnnouncement.current = id;
+    } else if (step) {
+      e.preventDefault();
+      if (!isWidgetEditable(widget, 'move')) return;
+      const x = Math.max(0, Math.min(cols - widget.width, widget.x + step[0]));
+      const y = Math.max(0, Math.min(layoutRows - widget.height, widget.y + step[1]));
+      if (x === widget.x && y === widget.y) return;
+      const before = getKeyboardSession(id)?.widgets ?? engine.getWidgets();
+      if (!moveWidget(id, x, y).ok) return;
+      keyboardSession.current = { id, widgets: before, layout: engine.getWidgets() };
+      pendingAnnouncement.current = id;
+    } else if (e.key === 'Delete' || e.key === 'Backspace') {
+      e.preventDefault();
+      // Deleting a selected widget removes the whole selection, except static widgets
+      if (selectedIds.includes(id) && selectedIds.length > 1) {
+        const result = deleteWidgets(selectedIds);
+        if (result.ok) setAnnouncement(`${result.value.length} widgets deleted`);
+      } else if (isWidgetEditable(widget, 'delete')) {
+        deleteWidget(id);
+        setAnnouncement(`Widget ${id} deleted`);
       }
+    } else if (e.key === 'Escape' && getKeyboardSession(id)) {
+      e.preventDefault();
+      const { widgets } = getKeyboardSession(id)!;
+      keyboardSession.current = null;
+      pendingAnnouncement.current = id;
+      replaceWidgets(widgets);
     }
-    
-    // Add the widget (with potential position adjustment)
-    const updatedWidgets = [...displayWidgets, newWidget];
-    setInitialWidgets(updatedWidgets);
-    onWidgetsChange?.(updatedWidgets);
-    onWidgetAdd?.(newWidget);
-    
-    setPlacementMode(null);
-  }, [placementMode, displayWidgets, setInitialWidgets, onWidgetsChange, onWidgetAdd, preventOverlap, cols, rows]);
+  }, [isEditing, effectiveInteractionModes, displayWidgets, cols, layoutRows, selectedIds, isWidgetEditable,
+      getLimits, engine, getKeyboardSession, moveWidget, resizeWidget, deleteWidget, deleteWidgets, replaceWidgets]);
+
+  // Announce the committed position and keep focus on the widget that was moved
+  useEffect(() => {
+    const id = pendingAnnouncement.current;
+    if (!id) return;
+    pendingAnnouncement.current = null;
+
+    const widget = displayWidgets.find(w => w.id === id);
+    if (!widget) return;
+    setAnnouncement(
+      `Widget ${id} at column ${widget.x + 1}, row ${widget.y + 1}, size ${widget.width} by ${widget.height}`
+    );
+
+    const element = gridInnerRef.current?.querySelector<HTMLElement>(`[data-widget-id="${CSS.escape(id)}"]`);
+    if (element && document.activeElement !== element) {
+      element.focus();
+    }
+  }, [displayWidgets]);
 
   const handleRightClick = useCallback((e: React.MouseEvent) => {
     e.preventDefault();
@@ -368,24 +977,27 @@ export const WidgetGrid = forwardRef<WidgetGridRef, WidgetGridProps>(({
     setHoverCell(null);
   }, []);
 
-  // Initialize widgets from props
+  // Reload initialWidgets whenever the parent passes a new array, including an empty one
+  // (breakpoint layouts are loaded above; controlled widgets are never stored)
+  const isControlled = controlledWidgets !== undefined;
   useEffect(() => {
-    if (externalWidgets.length > 0) {
+    if (!breakpoints && !isControlled) {
       setInitialWidgets(externalWidgets);
     }
-  }, [externalWidgets, setInitialWidgets]);
+  }, [breakpoints, isControlled, externalWidgets, setInitialWidgets]);
 
-  // Clear preview when edit mode changes
+  // Clear preview and selection when edit mode changes
   useEffect(() => {
     if (!isEditing) {
       handleDragCancel();
+      clearSelection();
     }
-  }, [isEditing, handleDragCancel]);
+  }, [isEditing, handleDragCancel, clearSelection]);
 
   // Handle addWidgetTrigger prop
   useEffect(() => {
     if (addWidgetTrigger) {
-      addWidget(addWidgetTrigger.type, addWidgetTrigger.props || {});
+      addWidget(addWidgetTrigger.type, addWidgetTrigger.props || {}, addWidgetTrigger.size);
     }
   }, [addWidgetTrigger, addWidget]);
 
@@ -395,12 +1007,10 @@ export const WidgetGrid = forwardRef<WidgetGridRef, WidgetGridProps>(({
     onEditModeChange?.(newEditMode);
   };
 
-  // Enhanced addWidget with custom size support
-  const addWidgetWithOptions = useCallback((type: string = "default", props: Record<string, any> = {}, size?: { w: number; h: number }) => {
-    const widgetSize = size || defaultWidgetSize;
-    addWidget(type, props); // Uses the existing addWidget with default size
-    // Note: For custom sizes, we'd need to enhance the internal addWidget function
-  }, [addWidget, defaultWidgetSize]);
+  // Enhanced addWidget with custom size support; the size is fitted to the type's limits
+  const addWidgetWithOptions = useCallback((type: string = "default", props: Record<string, any> = {}, size?: { w: number; h: number }) =>
+    addWidget(type, props, size),
+  [addWidget]);
 
   // Simple group visibility functions
   const setGroupVisible = useCallback((groupId: string, visible: boolean) => {
@@ -449,6 +1059,42 @@ export const WidgetGrid = forwardRef<WidgetGridRef, WidgetGridProps>(({
     return visibleGroups;
   }, [displayWidgets, groupFilters, hiddenGroups]);
 
+  const exportLayout = useCallback((): SerializedLayout => {
+    // Include groups hidden through setGroupVisible that have no explicit filter
+    const filters = [...groupFilters];
+    hiddenGroups.forEach(groupId => {
+      if (!filters.some(f => f.groupId === groupId)) {
+        filters.push({ groupId, visible: false });
+      }
+    });
+    return serializeLayout(displayWidgets, { cols, rows, preventOverlap, autoRows }, filters);
+  }, [displayWidgets, cols, rows, preventOverlap, autoRows, groupFilters, hiddenGroups]);
+
+  const deleteSelected = useCallback(() => deleteWidgets(selectedIds), [deleteWidgets, selectedIds]);
+
+  const duplicateSelected = useCallback(() => {
+    const result = duplicateWidgets(selectedIds);
+    if (result.ok && result.value.length > 0) setSelectedIds(result.value);
+    return result;
+  }, [duplicateWidgets, selectedIds, setSelectedIds]);
+
+  const importLayout = useCallback((layout: string | SerializedLayout, migrations?: LayoutMigrations) => {
+    const result = deserializeLayout(layout, {
+      grid: { cols, rows, preventOverlap, autoRows },
+      migrations,
+      widgetTypes: widgetRegistry,
+      defaultSizeLimits
+    });
+    if (!result.isValid || !result.layout) return result;
+
+    replaceWidgets(result.layout.widgets);
+    setHiddenGroups(new Set(
+      result.layout.groupFilters.filter(f => !f.visible).map(f => f.groupId)
+    ));
+    onGroupFiltersChange?.(result.layout.groupFilters);
+    return result;
+  }, [cols, rows, preventOverlap, autoRows, widgetRegistry, defaultSizeLimits, replaceWidgets, onGroupFiltersChange]);
+
   // Expose functions via ref
   useImperativeHandle(ref, () => ({
     addWidget: addWidgetWithOptions,
@@ -458,15 +1104,27 @@ export const WidgetGrid = forwardRef<WidgetGridRef, WidgetGridProps>(({
       onEditModeChange?.(enabled);
     },
     getEditMode: () => isEditing,
-    clearAllWidgets: () => {
-      setInitialWidgets([]);
-      onWidgetsChange?.([]);
-    },
+    clearAllWidgets: () => replaceWidgets([]),
     // Simple group filtering
     setGroupVisible,
-    getVisibleGroups
-  }), [addWidgetWithOptions, toggleEditMode, isEditing, onEditModeChange, onWidgetsChange,
-      setGroupVisible, getVisibleGroups, setInitialWidgets]);
+    getVisibleGroups,
+    // Undo/redo
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    // Layout import/export
+    exportLayout,
+    importLayout,
+    // Selection
+    getSelectedIds: () => selectedIds,
+    setSelectedIds,
+    clearSelection,
+    deleteSelected,
+    duplicateSelected
+  }), [addWidgetWithOptions, toggleEditMode, isEditing, onEditModeChange,
+      setGroupVisible, getVisibleGroups, replaceWidgets, undo, redo, canUndo, canRedo,
+      exportLayout, importLayout, selectedIds, setSelectedIds, clearSelection, deleteSelected, duplicateSelected]);
 
   const gridStyle: CSSProperties = {
     ...style,
@@ -475,232 +1133,295 @@ export const WidgetGrid = forwardRef<WidgetGridRef, WidgetGridProps>(({
     backgroundSize: `${cellWidth}px ${cellHeight}px`
   };
 
-  return (
-    <DndContext
-      onDragStart={handleDragStart}
-      onDragMove={handleDragMove}
-      onDragEnd={handleDragEnd}
-      onDragCancel={handleDragCancel}
+  // Built inline rather than as a nested component, so widgets and their renderers keep their
+  // identity and state across re-renders
+  const content = (
+    <div
+      ref={containerRef}
+      className={`grid-container ${className} ${isEditing && effectiveInteractionModes.editable ? 'edit-mode' : ''} ${group ? 'grid-group-member' : ''}`}
+      tabIndex={0}
+      onKeyDown={handleGridKeyDown}
     >
-      <GridContent />
-    </DndContext>
-  );
-
-  function GridContent() {
-    return (
-      <div className={`grid-container ${className} ${isEditing && effectiveInteractionModes.editable ? 'edit-mode' : ''}`}>
-        {showControls && effectiveInteractionModes.editable && (
-          <div style={{ display: 'flex', gap: '0.5rem', marginBottom: '0.5rem' }}>
-            <button className="add-widget-button" onClick={() => addWidget()}>
-              Add Widget
-            </button>
-            <button className="toggle-edit-button" onClick={toggleEditMode}>
-              {isEditing ? 'View Mode' : 'Edit Mode'}
-            </button>
-          </div>
-        )}
-        <div 
-          className={`grid-inner ${isEditing && effectiveInteractionModes.editable ? 'edit-mode' : ''}`} 
-          style={gridStyle}
-          onMouseMove={placementMode ? handlePlacementMouseMove : handleGridMouseMove}
-          onMouseLeave={handleGridMouseLeave}
-          onClick={placementMode ? handlePlacementClick : undefined}
-          onContextMenu={handleRightClick}
-        >
-          {filteredWidgets.map((widget: WidgetState) => {
-            const Renderer = widgetRenderers?.[widget.type];
+      <div className="grid-sr-only" role="status" aria-live="polite">
+        {announcement}
+      </div>
+      <div className="grid-sr-only" id={keyboardInstructionsId}>
+        Arrow keys move the widget, Shift and arrow keys resize it, Delete removes it and Escape undoes the keyboard changes.
+      </div>
+      {showControls && effectiveInteractionModes.editable && (
+        <div style={{ display: 'flex', gap: '0.5rem', marginBottom: '0.5rem' }}>
+          <button className="add-widget-button" onClick={() => addWidget()}>
+            Add Widget
+          </button>
+          <button className="toggle-edit-button" onClick={toggleEditMode}>
+            {isEditing ? 'View Mode' : 'Edit Mode'}
+          </button>
+        </div>
+      )}
+      <div 
+        ref={gridInnerRef}
+        className={`grid-inner ${isEditing && effectiveInteractionModes.editable ? 'edit-mode' : ''}`} 
+        style={gridStyle}
+        onKeyDown={handleWidgetKeyDown}
+        onMouseMove={placementMode ? handlePlacementMouseMove : handleGridMouseMove}
+        onMouseLeave={handleGridMouseLeave}
+        onClick={placementMode ? handlePlacementClick : undefined}
+        onPointerDown={handleMarqueeStart}
+        onContextMenu={handleRightClick}
+      >
+        {filteredWidgets.map((widget: WidgetState) => {
+          if (!isWidgetMounted(widget)) {
             return (
-              <DraggableItem
+              <div
                 key={widget.id}
-                id={widget.id}
-                x={widget.x}
-                y={widget.y}
-                w={widget.width}
-                h={widget.height}
-                minW={widget.minW ?? defaultSizeLimits.minW}
-                minH={widget.minH ?? defaultSizeLimits.minH}
-                maxW={widget.maxW ?? defaultSizeLimits.maxW}
-                maxH={widget.maxH ?? defaultSizeLimits.maxH}
-                cellWidth={cellWidth}
-                cellHeight={cellHeight}
-                onResize={effectiveInteractionModes.resizable ? resizeWidget : () => {}}
-                showPreview={draggedId === widget.id}
-                previewState={preview && preview.id === widget.id ? preview : undefined}
-                isEditing={isEditing && effectiveInteractionModes.editable}
-                onDelete={effectiveInteractionModes.editable ? deleteWidget : undefined}
-                isDraggable={effectiveInteractionModes.draggable}
-              >
-                {Renderer ? <Renderer {...(widget.props || {})} /> : <div style={{ padding: '1rem' }}>Widget {widget.id}</div>}
-              </DraggableItem>
+                className="widget-placeholder"
+                aria-hidden="true"
+                style={{
+                  ["--cell-x" as string]: widget.x,
+                  ["--cell-y" as string]: widget.y,
+                  ["--cell-w" as string]: widget.width,
+                  ["--cell-h" as string]: widget.height,
+                  ["--grid-cell-width" as string]: `${cellWidth}px`,
+                  ["--grid-cell-height" as string]: `${cellHeight}px`
+                } as CSSProperties}
+              />
             );
-          })}
-          
-          {/* Hover-to-add: Show "+" button on empty cells */}
-          {enableHoverToAdd && hoverCell && isEditing && effectiveInteractionModes.editable && !placementMode && !draggedId && (
-            <div 
-              className="add-widget-placeholder"
-              style={{
-                position: 'absolute',
-                left: hoverCell.x * cellWidth,
-                top: hoverCell.y * cellHeight,
-                width: cellWidth - 2, // Account for gaps/borders
-                height: cellHeight - 2, // Account for gaps/borders
-                border: '2px dashed #2196f3',
-                background: 'rgba(33, 150, 243, 0.1)',
-                display: 'flex',
-                alignItems: 'center',
-                justifyContent: 'center',
-                cursor: 'pointer',
-                fontSize: '24px',
-                color: '#2196f3',
-                zIndex: 999,
-                borderRadius: '4px'
-              }}
-              onClick={() => handleAddWidgetClick(hoverCell)}
+          }
+          const limits = getLimits(widget);
+          const item = itemProps.get(widget.id)!;
+          const isStatic = isStaticWidget(widget, lockedGroups);
+          return (
+            <DraggableItem
+              key={widget.id}
+              id={widget.id}
+              dragId={group ? `${gridId}::${widget.id}` : undefined}
+              dragData={group ? item.dragData : undefined}
+              x={widget.x}
+              y={widget.y}
+              w={widget.width}
+              h={widget.height}
+              minW={limits.minW}
+              minH={limits.minH}
+              maxW={limits.maxW}
+              maxH={limits.maxH}
+              aspectRatio={limits.aspectRatio}
+              sizeStep={item.sizeStep}
+              cellWidth={cellWidth}
+              cellHeight={cellHeight}
+              onResize={commitResize}
+              onResizePreview={updateResizePreview}
+              onResizeStart={handleResizeStart}
+              onResizeEnd={handleResizeEnd}
+              resizeHandles={widget.resizeHandles ?? resizeHandles}
+              gridCols={cols}
+              gridRows={layoutRows}
+              showPreview={draggedId === widget.id || !!preview?.groupPreviews?.some(p => p.id === widget.id)}
+              previewState={preview && preview.id === widget.id ? preview : undefined}
+              isEditing={isEditing && effectiveInteractionModes.editable}
+              onDelete={isWidgetEditable(widget, 'delete') ? deleteWidget : undefined}
+              isDraggable={isWidgetEditable(widget, 'move')}
+              isResizable={isWidgetEditable(widget, 'resize')}
+              describedBy={keyboardInstructionsId}
+              resizeLongPressDelay={resizeLongPressDelay}
+              isSelected={selectedIds.includes(widget.id)}
+              onSelect={selectWidget}
+              isStatic={isStatic}
             >
-              +
+              {item.content}
+            </DraggableItem>
+          );
+        })}
+        
+        {/* Hover-to-add: Show "+" button on empty cells */}
+        {enableHoverToAdd && hoverCell && isEditing && effectiveInteractionModes.editable && !placementMode && !draggedId && (
+          <div 
+            className="add-widget-placeholder"
+            style={{
+              position: 'absolute',
+              left: hoverCell.x * cellWidth,
+              top: hoverCell.y * cellHeight,
+              width: cellWidth - 2, // Account for gaps/borders
+              height: cellHeight - 2, // Account for gaps/borders
+              border: '2px dashed #2196f3',
+              background: 'rgba(33, 150, 243, 0.1)',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              cursor: 'pointer',
+              fontSize: '24px',
+              color: '#2196f3',
+              zIndex: 999,
+              borderRadius: '4px'
+            }}
+            onClick={() => handleAddWidgetClick(hoverCell)}
+          >
+            +
+          </div>
+        )}
+        
+        {/* Widget type selector */}
+        {showWidgetSelector && (
+          <div 
+            className="widget-selector"
+            style={{
+              position: 'absolute',
+              left: Math.min(showWidgetSelector.x * cellWidth, gridWidth - 200),
+              top: Math.min(showWidgetSelector.y * cellHeight, gridHeight - 100),
+              background: 'white',
+              border: '1px solid #ccc',
+              borderRadius: '8px',
+              padding: '8px',
+              boxShadow: '0 4px 12px rgba(0,0,0,0.15)',
+              zIndex: 1000,
+              minWidth: '180px'
+            }}
+          >
+            <div style={{ fontSize: '12px', color: '#666', marginBottom: '8px', fontWeight: 'bold' }}>
+              Choose Widget Type:
             </div>
-          )}
-          
-          {/* Widget type selector */}
-          {showWidgetSelector && (
-            <div 
-              className="widget-selector"
-              style={{
-                position: 'absolute',
-                left: Math.min(showWidgetSelector.x * cellWidth, gridWidth - 200),
-                top: Math.min(showWidgetSelector.y * cellHeight, gridHeight - 100),
-                background: 'white',
-                border: '1px solid #ccc',
-                borderRadius: '8px',
-                padding: '8px',
-                boxShadow: '0 4px 12px rgba(0,0,0,0.15)',
-                zIndex: 1000,
-                minWidth: '180px'
-              }}
-            >
-              <div style={{ fontSize: '12px', color: '#666', marginBottom: '8px', fontWeight: 'bold' }}>
-                Choose Widget Type:
+            {availableWidgets.map(widget => (
+              <div
+                key={widget.type}
+                className="widget-option"
+                onClick={() => startWidgetPlacement(widget, showWidgetSelector)}
+                style={{
+                  padding: '8px 12px',
+                  cursor: 'pointer',
+                  borderRadius: '4px',
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '8px',
+                  transition: 'background 0.2s'
+                }}
+                onMouseEnter={(e) => { e.currentTarget.style.background = '#f5f5f5'; }}
+                onMouseLeave={(e) => { e.currentTarget.style.background = 'transparent'; }}
+              >
+                <span style={{ fontSize: '18px' }}>{widget.icon || '📦'}</span>
+                <span style={{ fontSize: '14px' }}>{widget.name}</span>
               </div>
-              {availableWidgets.map(widget => (
-                <div
-                  key={widget.type}
-                  className="widget-option"
-                  onClick={() => startWidgetPlacement(widget, showWidgetSelector)}
-                  style={{
-                    padding: '8px 12px',
-                    cursor: 'pointer',
-                    borderRadius: '4px',
-                    display: 'flex',
-                    alignItems: 'center',
-                    gap: '8px',
-                    transition: 'background 0.2s'
-                  }}
-                  onMouseEnter={(e) => { e.currentTarget.style.background = '#f5f5f5'; }}
-                  onMouseLeave={(e) => { e.currentTarget.style.background = 'transparent'; }}
-                >
-                  <span style={{ fontSize: '18px' }}>{widget.icon || '📦'}</span>
-                  <span style={{ fontSize: '14px' }}>{widget.name}</span>
-                </div>
-              ))}
-              <div style={{ borderTop: '1px solid #eee', marginTop: '4px', paddingTop: '4px' }}>
-                <div style={{ fontSize: '11px', color: '#999', textAlign: 'center' }}>
-                  Right-click to cancel
-                </div>
+            ))}
+            <div style={{ borderTop: '1px solid #eee', marginTop: '4px', paddingTop: '4px' }}>
+              <div style={{ fontSize: '11px', color: '#999', textAlign: 'center' }}>
+                Right-click to cancel
               </div>
             </div>
-          )}
-          
-          {/* Widget placement preview */}
-          {placementMode && (
-            (() => {
-              // Check if placement would cause collision
-              const tempWidget = {
-                x: placementMode.startX,
-                y: placementMode.startY,
-                width: placementMode.currentW,
-                height: placementMode.currentH
-              };
-              
-              const hasCollision = displayWidgets.some(existingWidget => 
-                tempWidget.x < existingWidget.x + existingWidget.width &&
-                tempWidget.x + tempWidget.width > existingWidget.x &&
-                tempWidget.y < existingWidget.y + existingWidget.height &&
-                tempWidget.y + tempWidget.height > existingWidget.y
-              );
-              
-              return (
-                <div
-                  className="widget-placement-preview"
-                  style={{
-                    position: 'absolute',
-                    left: placementMode.startX * cellWidth,
-                    top: placementMode.startY * cellHeight,
-                    width: placementMode.currentW * cellWidth - 2,
-                    height: placementMode.currentH * cellHeight - 2,
-                    border: `2px solid ${hasCollision ? '#f44336' : '#4caf50'}`,
-                    background: hasCollision ? 'rgba(244, 67, 54, 0.2)' : 'rgba(76, 175, 80, 0.2)',
-                    borderRadius: '4px',
-                    pointerEvents: 'none',
-                    zIndex: 998,
-                    display: 'flex',
-                    alignItems: 'center',
-                    justifyContent: 'center',
-                    fontSize: '14px',
-                    color: hasCollision ? '#c62828' : '#2e7d32',
-                    fontWeight: 'bold'
-                  }}
-                >
-                  {placementMode.currentW} × {placementMode.currentH}
-                  <div style={{ 
-                    position: 'absolute', 
-                    bottom: '4px', 
-                    right: '4px', 
-                    fontSize: '10px', 
-                    opacity: 0.7 
-                  }}>
-                    {hasCollision ? (preventOverlap ? 'Will reposition' : 'Overlapping') : 'Click to place'}
-                  </div>
-                </div>
-              );
-            })()
-          )}
-          
-          {preview && isEditing && effectiveInteractionModes.editable && (
-            <>
+          </div>
+        )}
+        
+        {/* Widget placement preview */}
+        {placementMode && (
+          <div
+            className="widget-placement-preview"
+            style={{
+              position: 'absolute',
+              left: placementMode.startX * cellWidth,
+              top: placementMode.startY * cellHeight,
+              width: placementMode.currentW * cellWidth - 2,
+              height: placementMode.currentH * cellHeight - 2,
+              border: `2px solid ${placementBlocked ? '#f44336' : '#4caf50'}`,
+              background: placementBlocked ? 'rgba(244, 67, 54, 0.2)' : 'rgba(76, 175, 80, 0.2)',
+              borderRadius: '4px',
+              pointerEvents: 'none',
+              zIndex: 998,
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              fontSize: '14px',
+              color: placementBlocked ? '#c62828' : '#2e7d32',
+              fontWeight: 'bold'
+            }}
+          >
+            {placementMode.currentW} × {placementMode.currentH}
+            <div style={{ 
+              position: 'absolute', 
+              bottom: '4px', 
+              right: '4px', 
+              fontSize: '10px', 
+              opacity: 0.7 
+            }}>
+              {placementBlocked ? (preventOverlap ? 'Will reposition' : 'Overlapping') : 'Click to place'}
+            </div>
+          </div>
+        )}
+        
+        {preview && isEditing && effectiveInteractionModes.editable && (
+          <>
+            <div
+              className={`widget-preview active`}
+              style={{
+                position: 'absolute',
+                left: `${preview.x * cellWidth}px`,
+                top: `${preview.y * cellHeight}px`,
+                width: `${preview.width * cellWidth - 1}px`,
+                height: `${preview.height * cellHeight - 1}px`,
+                pointerEvents: 'none',
+                transition: 'all 0.1s ease'
+              }}
+            />
+            {preview.groupPreviews?.map(groupPreview => (
               <div
-                className={`widget-preview active`}
+                key={groupPreview.id}
+                className="widget-preview active"
                 style={{
                   position: 'absolute',
-                  left: `${preview.x * cellWidth}px`,
-                  top: `${preview.y * cellHeight}px`,
-                  width: `${preview.width * cellWidth - 1}px`,
-                  height: `${preview.height * cellWidth - 1}px`,
+                  left: `${groupPreview.x * cellWidth}px`,
+                  top: `${groupPreview.y * cellHeight}px`,
+                  width: `${groupPreview.width * cellWidth - 1}px`,
+                  height: `${groupPreview.height * cellHeight - 1}px`,
                   pointerEvents: 'none',
                   transition: 'all 0.1s ease'
                 }}
               />
-              {Array.isArray(preview.reflowPreviews) && preview.reflowPreviews.map((reflowPreview: any) => (
-                <div
-                  key={reflowPreview.id}
-                  className="widget-preview reflow"
-                  style={{
-                    position: 'absolute',
-                    left: `${reflowPreview.x * cellWidth}px`,
-                    top: `${reflowPreview.y * cellHeight}px`,
-                    width: `${reflowPreview.width * cellWidth - 1}px`,
-                    height: `${reflowPreview.height * cellHeight - 1}px`,
-                    pointerEvents: 'none',
-                    transition: 'all 0.1s ease'
-                  }}
-                />
-              ))}
-            </>
-          )}
-        </div>
+            ))}
+            {Array.isArray(preview.reflowPreviews) && preview.reflowPreviews.map((reflowPreview: any) => (
+              <div
+                key={reflowPreview.id}
+                className="widget-preview reflow"
+                style={{
+                  position: 'absolute',
+                  left: `${reflowPreview.x * cellWidth}px`,
+                  top: `${reflowPreview.y * cellHeight}px`,
+                  width: `${reflowPreview.width * cellWidth - 1}px`,
+                  height: `${reflowPreview.height * cellHeight - 1}px`,
+                  pointerEvents: 'none',
+                  transition: 'all 0.1s ease'
+                }}
+              />
+            ))}
+          </>
+        )}
+
+        {marquee && (
+          <div
+            className="grid-marquee"
+            style={{
+              left: Math.min(marquee.startX, marquee.endX),
+              top: Math.min(marquee.startY, marquee.endY),
+              width: Math.abs(marquee.endX - marquee.startX),
+              height: Math.abs(marquee.endY - marquee.startY)
+            }}
+          />
+        )}
       </div>
-    );
+    </div>
+  );
+
+  // Grids inside a WidgetGridGroup share the group's DndContext
+  if (group) {
+    return content;
   }
+
+  return (
+    <DndContext
+      autoScroll={false}
+      onDragStart={handleDragStart}
+      onDragMove={handleDragMove}
+      onDragEnd={handleDragEnd}
+      onDragCancel={handleDragCancel}
+    >
+      {content}
+    </DndContext>
+  );
 });
 
 // Add display name for debugging
@@ -0,0 +1,303 @@
+import { createContext, useCallback, useContext, useMemo, useRef } from "react";
+import type { ReactNode } from "react";
+import { DndContext } from "@dnd-kit/core";
+import type { DragStartEvent, DragMoveEvent, DragEndEvent } from "@dnd-kit/core";
+import type { WidgetState, WidgetTransfer, AvailableWidget } from "../types";
+
+/** What a WidgetGrid exposes to the group it is rendered in */
+export interface GridGroupMember {
+  /** The element widgets are positioned in; drop cells are measured from it */
+  getElement: () => HTMLElement | null;
+  cellWidth: number;
+  cellHeight: number;
+  getWidget: (id: string) => WidgetState | undefined;
+  /** Whether the widget is being dragged together with other selected widgets */
+  isGroupDrag: (id: string) => boolean;
+  /** fromGridId is null for widgets dragged in from a palette */
+  canAccept: (widget: WidgetState, fromGridId: string | null) => boolean;
+  onDragStart: (event: DragStartEvent) => void;
+  onDragMove: (event: DragMoveEvent) => void;
+  onDragEnd: (event: DragEndEvent) => void;
+  onDragCancel: () => void;
+  /** Clears the drag preview without ending the drag */
+  clearPreview: () => void;
+  /** Previews a widget from another grid at its x/y (null clears it); returns whether it fits */
+  previewIncoming: (widget: WidgetState | null) => boolean;
+  /** Inserts a transferred widget and returns it as placed, or null if it was vetoed or did not fit */
+  receiveWidget: (widget: WidgetState) => WidgetState | null;
+  /** Whether a widget may leave this grid, checked before the target commits anything */
+  canRelease: (id: string) => boolean;
+  /** Removes a widget that moved to another grid; returns false if the grid vetoed it */
+  releaseWidget: (id: string) => boolean;
+  onTransfer: (transfer: WidgetTransfer) => void;
+  /** Builds a new widget of a palette type at the given cell */
+  createWidget: (type: AvailableWidget, cell: { x: number; y: number }) => WidgetState;
+  /** Previews a palette widget (null clears it); returns the widget where it will be placed, or null if it does not fit */
+  previewNewWidget: (widget: WidgetState | null) => WidgetState | null;
+  addNewWidget: (widget: WidgetState) => void;
+}
+
+interface WidgetGridGroupContextValue {
+  /** Registers a grid; returns the unregister function */
+  register: (gridId: string, getMember: () => GridGroupMember) => () => void;
+}
+
+const WidgetGridGroupContext = createContext<WidgetGridGroupContextValue | null>(null);
+
+/** The enclosing WidgetGridGroup, or null for a standalone grid */
+export const useWidgetGridGroup = () => useContext(WidgetGridGroupContext);
+
+export interface WidgetGridGroupProps {
+  children: ReactNode;
+  /** Called after a widget has been moved from one grid into another */
+  onWidgetTransfer?: (transfer: WidgetTransfer) => void;
+}
+
+interface TransferState {
+  /** Source grid, or null for a palette item */
+  fromGridId: string | null;
+  widgetId: string | null;
+  paletteWidget: AvailableWidget | null;
+  /** Target grid under the pointer; never the source grid */
+  overGridId: string | null;
+  cell: { x: number; y: number } | null;
+  isValid: boolean;
+  /** Palette widget as it will be placed in the target grid */
+  placed: WidgetState | null;
+}
+
+const getPointer = (event: DragMoveEvent | DragEndEvent) => {
+  const activator = event.activatorEvent as (MouseEvent & TouchEvent) | null;
+  if (!activator) return null;
+  const point = activator.touches?.[0] ?? activator.changedTouches?.[0] ?? activator;
+  if (typeof point.clientX !== "number") return null;
+  return { x: point.clientX + event.delta.x, y: point.clientY + event.delta.y };
+};
+
+/**
+ * Shares one DndContext between the WidgetGrids rendered inside it so widgets
+ * can be dragged from one grid into another, or in from a WidgetPaletteItem.
+ */
+export function WidgetGridGroup({ children, onWidgetTransfer }: WidgetGridGroupProps) {
+  const members = useRef(new Map<string, () => GridGroupMember>());
+  const transfer = useRef<TransferState | null>(null);
+
+  const register = useCallback((gridId: string, getMember: () => GridGroupMember) => {
+    members.current.set(gridId, getMember);
+    return () => {
+      if (members.current.get(gridId) === getMember) {
+        members.current.delete(gridId);
+      }
+    };
+  }, []);
+
+  const contextValue = useMemo(() => ({ register }), [register]);
+
+  const getMember = (gridId: string | null) =>
+    gridId ? members.current.get(gridId)?.() : undefined;
+
+  const findGridAt = (point: { x: number; y: number }) => {
+    for (const [gridId, member] of members.current) {
+      const rect = member().getElement()?.getBoundingClientRect();
+      if (
+        rect &&
+        point.x >= rect.left &&
+        point.x < rect.right &&
+        point.y >= rect.top &&
+        point.y < rect.bottom
+      ) {
+        return gridId;
+      }
+    }
+    return null;
+  };
+
+  const leaveTarget = (state: TransferState) => {
+    const target = getMember(state.overGridId);
+    if (state.paletteWidget) {
+      target?.previewNewWidget(null);
+    } else {
+      target?.previewIncoming(null);
+    }
+    state.overGridId = null;
+    state.cell = null;
+    state.isValid = false;
+    state.placed = null;
+  };
+
+  const getDropCell = (
+    event: DragMoveEvent,
+    target: GridGroupMember,
+    pointer: { x: number; y: number }
+  ) => {
+    // Place the widget where its top-left corner is over the target grid
+    const gridRect = target.getElement()!.getBoundingClientRect();
+    const dragged = event.active.rect.current.translated;
+    return {
+      x: Math.round(((dragged?.left ?? pointer.x) - gridRect.left) / target.cellWidth),
+      y: Math.round(((dragged?.top ?? pointer.y) - gridRect.top) / target.cellHeight),
+    };
+  };
+
+  const handleDragStart = (event: DragStartEvent) => {
+    const data = event.active.data.current ?? {};
+    if (data.source === "palette" && data.widget) {
+      transfer.current = {
+        fromGridId: null,
+        widgetId: null,
+        paletteWidget: data.widget,
+        overGridId: null,
+        cell: null,
+        isValid: false,
+        placed: null,
+      };
+      return;
+    }
+
+    const { gridId, widgetId } = data;
+    if (!gridId || !widgetId) return;
+    transfer.current = {
+      fromGridId: gridId,
+      widgetId,
+      paletteWidget: null,
+      overGridId: null,
+      cell: null,
+      isValid: false,
+      placed: null,
+    };
+    getMember(gridId)?.onDragStart(event);
+  };
+
+  const handlePaletteMove = (event: DragMoveEvent, state: TransferState, paletteWidget: AvailableWidget) => {
+    const pointer = getPointer(event);
+    const overGridId = pointer ? findGridAt(pointer) : null;
+    const target = getMember(overGridId);
+    if (!target || !pointer) {
+      if (state.overGridId) leaveTarget(state);
+      return;
+    }
+
+    if (state.overGridId !== overGridId) {
+      leaveTarget(state);
+      state.overGridId = overGridId;
+    }
+
+    const cell = getDropCell(event, target, pointer);
+    if (state.cell && state.cell.x === cell.x && state.cell.y === cell.y) return;
+    state.cell = cell;
+
+    const widget = target.createWidget(paletteWidget, cell);
+    if (!target.canAccept(widget, null)) {
+      target.previewNewWidget(null);
+      state.placed = null;
+      state.isValid = false;
+      return;
+    }
+    state.placed = target.previewNewWidget(widget);
+    state.isValid = state.placed !== null;
+  };
+
+  const handleDragMove = (event: DragMoveEvent) => {
+    const state = transfer.current;
+    if (state?.paletteWidget) {
+      handlePaletteMove(event, state, state.paletteWidget);
+      return;
+    }
+
+    const source = state && getMember(state.fromGridId);
+    if (!state || !source || !state.widgetId) return;
+
+    const pointer = getPointer(event);
+    const overGridId = pointer ? findGridAt(pointer) : null;
+    const target = overGridId !== state.fromGridId ? getMember(overGridId) : undefined;
+    const widget = source.getWidget(state.widgetId);
+
+    // Selections move as a block inside their own grid only
+    if (
+      !target ||
+      !widget ||
+      source.isGroupDrag(state.widgetId) ||
+      !source.canRelease(state.widgetId) ||
+      !target.canAccept(widget, state.fromGridId)
+    ) {
+      if (state.overGridId) leaveTarget(state);
+      source.onDragMove(event);
+      return;
+    }
+
+    if (state.overGridId !== overGridId) {
+      leaveTarget(state);
+      source.clearPreview();
+      state.overGridId = overGridId;
+    }
+
+    const cell = getDropCell(event, target, pointer!);
+    if (state.cell && state.cell.x === cell.x && state.cell.y === cell.y) return;
+    state.cell = cell;
+    state.isValid = target.previewIncoming({ ...widget, ...cell });
+  };
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    const state = transfer.current;
+    transfer.current = null;
+    if (state?.paletteWidget) {
+      const target = getMember(state.overGridId);
+      target?.previewNewWidget(null);
+      if (target && state.isValid && state.placed) {
+        target.addNewWidget(state.placed);
+      }
+      return;
+    }
+
+    const source = state && getMember(state.fromGridId);
+    if (!state || !source || !state.widgetId) return;
+
+    const target = getMember(state.overGridId);
+    const widget = source.getWidget(state.widgetId);
+    if (!target || !widget || !state.cell || !state.isValid || !source.canRelease(state.widgetId)) {
+      if (state.overGridId) leaveTarget(state);
+      source.onDragEnd(event);
+      return;
+    }
+
+    source.onDragCancel();
+    target.previewIncoming(null);
+    const placed = target.receiveWidget({ ...widget, ...state.cell });
+    if (!placed) return;
+    // canRelease has ruled out permissions, so only the source's onBeforeChange can still refuse
+    if (!source.releaseWidget(state.widgetId)) {
+      target.releaseWidget(placed.id);
+      return;
+    }
+
+    const result: WidgetTransfer = {
+      widget: placed,
+      fromGridId: state.fromGridId!,
+      toGridId: state.overGridId!,
+    };
+    source.onTransfer(result);
+    target.onTransfer(result);
+    onWidgetTransfer?.(result);
+  };
+
+  const handleDragCancel = () => {
+    const state = transfer.current;
+    transfer.current = null;
+    if (!state) return;
+    if (state.overGridId) leaveTarget(state);
+    getMember(state.fromGridId)?.onDragCancel();
+  };
+
+  return (
+    <WidgetGridGroupContext.Provider value={contextValue}>
+      <DndContext
+        onDragStart={handleDragStart}
+        onDragMove={handleDragMove}
+        onDragEnd={handleDragEnd}
+        onDragCancel={handleDragCancel}
+      >
+        {children}
+      </DndContext>
+    </WidgetGridGroupContext.Provider>
+  );
+}
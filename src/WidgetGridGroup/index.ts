@@ -0,0 +1,2 @@
+export { WidgetGridGroup, useWidgetGridGroup } from "./WidgetGridGroup";
+export type { WidgetGridGroupProps, GridGroupMember } from "./WidgetGridGroup";
@@ -0,0 +1,46 @@
+import type { ReactNode, CSSProperties } from "react";
+import type { AvailableWidget } from "../types";
+import { useWidgetPaletteItem } from "../hooks/useWidgetPaletteItem";
+import "./WidgetPaletteItem.css";
+
+export interface WidgetPaletteItemProps {
+  widget: AvailableWidget;
+  /** dnd-kit draggable id; only needed when several items share a widget type */
+  id?: string;
+  disabled?: boolean;
+  className?: string;
+  style?: CSSProperties;
+  /** Replaces the default icon and name */
+  children?: ReactNode;
+}
+
+/** A sidebar tile that can be dragged onto a grid inside a WidgetGridGroup */
+export function WidgetPaletteItem({
+  widget,
+  id,
+  disabled,
+  className = "",
+  style,
+  children,
+}: WidgetPaletteItemProps) {
+  const { setNodeRef, attributes, listeners, isDragging, style: dragStyle } =
+    useWidgetPaletteItem({ widget, id, disabled });
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={`widget-palette-item ${isDragging ? "dragging" : ""} ${className}`}
+      style={{ ...style, ...dragStyle }}
+      {...listeners}
+      {...attributes}
+      aria-label={`Add ${widget.name}`}
+    >
+      {children ?? (
+        <>
+          <span className="widget-palette-item-icon">{widget.icon || "📦"}</span>
+          <span className="widget-palette-item-name">{widget.name}</span>
+        </>
+      )}
+    </div>
+  );
+}
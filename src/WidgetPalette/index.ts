@@ -0,0 +1,2 @@
+export { WidgetPaletteItem } from "./WidgetPaletteItem";
+export type { WidgetPaletteItemProps } from "./WidgetPaletteItem";
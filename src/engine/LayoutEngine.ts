@@ -0,0 +1,422 @@
+// GridTech headless layout engine
+import type {
+  WidgetState, CompactType, CollisionStrategy, LayoutAction, LayoutActionType, LayoutOperation,
+  LayoutValidationIssue, GridErrorCode, GridResult, WidgetEditAction, CanEditWidget, WidgetSizeLimits, WidgetTypeRegistry
+} from '../types';
+import { validateWidgetPosition, reflowWidgets, resolveCollisions, getResizeDirection } from '../utils/gridUtils';
+import { checkCollision, isStaticWidget } from '../utils/grid/gridCollision';
+import { canEditWidget } from '../utils/grid/gridPermissions';
+import { OccupancyIndex } from '../utils/grid/gridOccupancy';
+import { compactWidgets } from '../utils/grid/gridCompaction';
+import { clampGroupDelta, isWidgetSizeValid } from '../utils/grid/gridMath';
+import { toGridError, gridSuccess, gridFailure } from '../utils/gridErrors';
+import { applyWidgetType, getDefaultWidgetSize, getWidgetLimits } from '../utils/widgetTypes';
+import { validateLayout } from '../utils/layoutSerialization';
+
+export interface LayoutEngineOptions {
+  cols: number;
+  /** Infinity for grids that grow with their content */
+  rows: number;
+  preventOverlap?: boolean;
+  defaultWidgetSize?: { w: number; h: number };
+  /** Limits for widgets whose own and type limits leave them unset, as WidgetGrid's defaultSizeLimits */
+  defaultSizeLimits?: WidgetSizeLimits;
+  /** Per-type size limits and default props applied to every widget the engine adds */
+  widgetTypes?: WidgetTypeRegistry;
+  /** Float widgets up (or left) into free space after every change */
+  compactType?: CompactType;
+  /** Push colliding widgets along the move direction instead of relocating them */
+  collisionStrategy?: CollisionStrategy;
+  /** Groups whose widgets are treated as static */
+  lockedGroups?: readonly string[];
+  /** Return false to forbid moving, resizing or deleting a widget */
+  canEdit?: CanEditWidget;
+}
+
+export type LayoutChangeListener = (widgets: WidgetState[], action: LayoutAction) => void;
+
+const DEFAULT_WIDGET_SIZE = { w: 3, h: 2 };
+
+const ACTION_VERBS: Record<WidgetEditAction, string> = { move: 'moved', resize: 'resized', delete: 'deleted' };
+
+const fail = (code: GridErrorCode, message: string, widgetId?: string) =>
+  gridFailure<LayoutAction>({ code, message, widgetId });
+
+/**
+ * Owns a widget list and applies layout operations to it with the same rules
+ * as WidgetGrid: bounds, size limits, permissions, collisions and compaction.
+ * It has no React dependency, so layouts can be checked on a server or in tests.
+ *
+ * `plan` computes the LayoutAction an operation would produce without changing
+ * anything; an action whose `after` is its `before` changes nothing. `apply`
+ * plans and commits in one step and notifies subscribers.
+ */
+export class LayoutEngine {
+  private widgets: WidgetState[];
+  private options: LayoutEngineOptions;
+  private readonly listeners = new Set<LayoutChangeListener>();
+  // Built on first use and kept in step with every commit
+  private occupancy: OccupancyIndex | null = null;
+
+  constructor(options: LayoutEngineOptions, widgets: WidgetState[] = []) {
+    this.options = options;
+    this.widgets = widgets;
+  }
+
+  getWidgets(): WidgetState[] {
+    return this.widgets;
+  }
+
+  getOptions(): LayoutEngineOptions {
+    return this.options;
+  }
+
+  /** Cell index of the current layout, kept in step with every change; do not modify it */
+  getOccupancy(): OccupancyIndex {
+    if (!this.occupancy) this.occupancy = new OccupancyIndex(this.options.cols, this.widgets);
+    return this.occupancy;
+  }
+
+  setOptions(options: Partial<LayoutEngineOptions>) {
+    if (options.cols !== undefined && options.cols !== this.options.cols) this.occupancy = null;
+    this.options = { ...this.options, ...options };
+  }
+
+  /** Replaces the widget list without notifying subscribers */
+  setWidgets(widgets: WidgetState[]) {
+    this.widgets = widgets;
+    this.occupancy?.sync(widgets);
+  }
+
+  /** Returns the unsubscribe function */
+  subscribe(listener: LayoutChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** Stores a planned (or rewritten) action and notifies subscribers */
+  commit(action: LayoutAction) {
+    if (action.after === action.before) return;
+    this.widgets = action.after;
+    this.occupancy?.sync(action.after);
+    this.listeners.forEach(listener => listener(action.after, action));
+  }
+
+  apply(operation: LayoutOperation): GridResult<LayoutAction> {
+    const result = this.plan(operation);
+    if (result.ok) this.commit(result.value);
+    return result;
+  }
+
+  /** Issues such as overlaps or broken size limits in the current layout */
+  validate(): LayoutValidationIssue[] {
+    const { cols, rows, preventOverlap = false, widgetTypes, defaultSizeLimits } = this.options;
+    return validateLayout(
+      this.widgets,
+      { cols, rows, preventOverlap, autoRows: rows === Infinity },
+      widgetTypes,
+      defaultSizeLimits
+    );
+  }
+
+  /**
+   * Where a new widget would go: moved inside the grid and, with preventOverlap,
+   * to the first free slot when its own cells are taken.
+   */
+  findPlacement(widget: WidgetState): GridResult<WidgetState> {
+    const { cols, rows, preventOverlap } = this.options;
+    const noSpace = gridFailure<WidgetState>({
+      code: 'NO_SPACE',
+      message: `No space available on the grid for widget "${widget.id}"`,
+      widgetId: widget.id
+    });
+    if (widget.width > cols || widget.height > rows) return noSpace;
+
+    const bounded = {
+      ...widget,
+      x: Math.max(0, Math.min(cols - widget.width, widget.x)),
+      y: Math.max(0, Math.min(rows - widget.height, widget.y))
+    };
+    const occupancy = this.getOccupancy();
+    if (!preventOverlap || occupancy.isAreaFree(bounded, [widget.id])) return gridSuccess(bounded);
+
+    const position = occupancy.findFreePosition(widget.width, widget.height, rows);
+    return position ? gridSuccess({ ...bounded, ...position }) : noSpace;
+  }
+
+  plan(operation: LayoutOperation): GridResult<LayoutAction> {
+    try {
+      switch (operation.type) {
+        case 'add': return this.planAdd(operation.widgetType, operation.props, operation.size);
+        case 'place': return this.planPlace(operation.widget, operation.relocate);
+        case 'move': return this.planMove(operation.id, operation.x, operation.y);
+        case 'moveGroup': return this.planMoveGroup(operation.ids, operation.dx, operation.dy);
+        case 'resize':
+          return this.planResize(operation.id, operation.width, operation.height, operation.x, operation.y);
+        case 'delete': return this.planDelete(operation.ids);
+        case 'duplicate': return this.planDuplicate(operation.ids);
+        case 'receive': return this.planReceive(operation.widget, operation.preserveId);
+        case 'release': return this.planRelease(operation.id);
+        case 'replace': return this.change('replace', [], operation.widgets);
+        case 'compact': return this.planCompact(operation.compactType);
+      }
+    } catch (error) {
+      return gridFailure(toGridError(error));
+    }
+  }
+
+  // Every change is compacted before it is returned
+  private change(type: LayoutActionType, widgetIds: string[], layout: WidgetState[]): GridResult<LayoutAction> {
+    const { cols, rows, compactType = 'none', lockedGroups } = this.options;
+    return gridSuccess({
+      type,
+      widgetIds,
+      before: this.widgets,
+      after: compactWidgets(layout, compactType, cols, rows, lockedGroups)
+    });
+  }
+
+  private unchanged(type: LayoutActionType, widgetIds: string[]): GridResult<LayoutAction> {
+    return gridSuccess({ type, widgetIds, before: this.widgets, after: this.widgets });
+  }
+
+  // The failure for an edit the widget does not allow, or null when it is allowed
+  private checkPermission(widget: WidgetState, action: WidgetEditAction) {
+    const { lockedGroups, canEdit } = this.options;
+    if (isStaticWidget(widget, lockedGroups)) {
+      return fail('LOCKED', `Widget "${widget.id}" is static and cannot be ${ACTION_VERBS[action]}`, widget.id);
+    }
+    if (!canEditWidget(widget, action, { canEdit })) {
+      return fail('NOT_PERMITTED', `Widget "${widget.id}" cannot be ${ACTION_VERBS[action]}`, widget.id);
+    }
+    return null;
+  }
+
+  private generateUniqueId() {
+    const existingIds = this.widgets
+      .map(w => {
+        const match = w.id.match(/widget-(\d+)/);
+        return match ? parseInt(match[1]) : 0;
+      })
+      .filter(n => !isNaN(n));
+    const highestId = Math.max(0, ...existingIds);
+    return `widget-${highestId + 1}-${Date.now()}`;
+  }
+
+  // size defaults to the type's defaultSize, then defaultWidgetSize
+  private planAdd(type = 'default', props: Record<string, any> = {}, size?: { w: number; h: number }) {
+    const {
+      cols, rows, preventOverlap = false, widgetTypes, defaultSizeLimits, defaultWidgetSize = DEFAULT_WIDGET_SIZE
+    } = this.options;
+    const sized = applyWidgetType({
+      id: this.generateUniqueId(),
+      x: 0,
+      y: 0,
+      ...(size ? { width: size.w, height: size.h } : getDefaultWidgetSize(type, widgetTypes, defaultWidgetSize)),
+      type,
+      props,
+    }, widgetTypes, defaultSizeLimits);
+
+    const position = this.getOccupancy().findFreePosition(sized.width, sized.height, rows);
+    if (!position) {
+      return fail('NO_SPACE', 'No more space available on the grid for new widgets');
+    }
+
+    const newWidget: WidgetState = { ...sized, ...position };
+    const validation = validateWidgetPosition(newWidget, this.widgets, cols, rows, preventOverlap);
+    if (!validation.isValid && !validation.suggestedPosition) {
+      return fail('NO_SPACE', 'No more space available on the grid for new widgets', newWidget.id);
+    }
+    const finalWidget = validation.isValid ? newWidget : { ...newWidget, ...validation.suggestedPosition };
+    return this.change('add', [finalWidget.id], [...this.widgets, finalWidget]);
+  }
+
+  private planPlace(newWidget: WidgetState, relocate = false) {
+    const { cols, rows, preventOverlap, widgetTypes, defaultSizeLimits } = this.options;
+    let widget = applyWidgetType(newWidget, widgetTypes, defaultSizeLimits);
+    if (relocate) {
+      const placement = this.findPlacement(widget);
+      if (!placement.ok) return gridFailure<LayoutAction>(placement.error);
+      widget = placement.value;
+    }
+    if (widget.x < 0 || widget.y < 0 || widget.x + widget.width > cols || widget.y + widget.height > rows) {
+      return fail('OUT_OF_BOUNDS', `Widget "${widget.id}" does not fit inside the grid`, widget.id);
+    }
+    if (preventOverlap && !this.getOccupancy().isAreaFree(widget)) {
+      return fail('COLLISION', `Widget "${widget.id}" overlaps another widget`, widget.id);
+    }
+    return this.change('add', [widget.id], [...this.widgets, widget]);
+  }
+
+  private planMove(id: string, x: number, y: number) {
+    const { cols, rows, preventOverlap, collisionStrategy, lockedGroups } = this.options;
+    const widget = this.widgets.find(w => w.id === id);
+    if (!widget) return fail('NOT_FOUND', `Widget "${id}" does not exist`, id);
+    const denied = this.checkPermission(widget, 'move');
+    if (denied) return denied;
+    if (x < 0 || y < 0 || x + widget.width > cols || y + widget.height > rows) {
+      return fail('OUT_OF_BOUNDS', `Cannot move widget "${id}" outside the grid`, id);
+    }
+
+    let layout = this.widgets.map(w => w.id === id ? { ...widget, x, y } : w);
+    if (preventOverlap) {
+      layout = resolveCollisions(layout, cols, rows, id, collisionStrategy, {
+        dx: x - widget.x,
+        dy: y - widget.y
+      }, lockedGroups);
+    }
+    return this.change('move', [id], layout);
+  }
+
+  // Displaced widgets are relocated around the moved block
+  private planMoveGroup(ids: string[], dx: number, dy: number) {
+    const { cols, rows, preventOverlap, lockedGroups } = this.options;
+    const group = this.widgets.filter(w => ids.includes(w.id));
+    if (group.length === 0) return fail('NOT_FOUND', 'None of the widgets to move exist');
+    const denied = group.map(w => this.checkPermission(w, 'move')).find(result => result !== null);
+    if (denied) return denied;
+
+    const groupIds = group.map(w => w.id);
+    const delta = clampGroupDelta(group, dx, dy, cols, rows);
+    if (delta.dx === 0 && delta.dy === 0) {
+      if (dx === 0 && dy === 0) return this.unchanged('move', groupIds);
+      return fail('OUT_OF_BOUNDS', 'Cannot move the widgets outside the grid');
+    }
+
+    let layout = this.widgets.map(w =>
+      groupIds.includes(w.id) ? { ...w, x: w.x + delta.dx, y: w.y + delta.dy } : w
+    );
+    if (preventOverlap) {
+      layout = reflowWidgets(layout, cols, rows, true, groupIds, lockedGroups);
+    }
+    return this.change('move', groupIds, layout);
+  }
+
+  // x/y are given when a north or west handle moved the widget's origin
+  private planResize(id: string, width: number, height: number, x?: number, y?: number) {
+    const { cols, rows, preventOverlap, collisionStrategy, lockedGroups, widgetTypes, defaultSizeLimits } = this.options;
+    const widget = this.widgets.find(w => w.id === id);
+    if (!widget) return fail('NOT_FOUND', `Widget "${id}" does not exist`, id);
+    const denied = this.checkPermission(widget, 'resize');
+    if (denied) return denied;
+
+    const originX = Math.max(0, Math.min(x ?? widget.x, cols - 1));
+    const originY = Math.max(0, Math.min(y ?? widget.y, rows - 1));
+    const resizedWidget = {
+      ...widget,
+      x: originX,
+      y: originY,
+      width: Math.max(1, Math.min(width, cols - originX)),
+      height: Math.max(1, Math.min(height, rows - originY))
+    };
+    // The size that fits the grid must respect min/max, sizeStep and aspectRatio; the UI snaps it before calling
+    const limits = getWidgetLimits(widget, widgetTypes, defaultSizeLimits);
+    if (!isWidgetSizeValid(resizedWidget.width, resizedWidget.height, limits)) {
+      return fail(
+        'CONSTRAINT_VIOLATION',
+        `Size ${resizedWidget.width}x${resizedWidget.height} breaks the size constraints of widget "${id}"`,
+        id
+      );
+    }
+
+    let layout = this.widgets.map(w => w.id === id ? resizedWidget : w);
+    if (preventOverlap && this.widgets.some(other => other.id !== id && checkCollision(resizedWidget, other))) {
+      layout = resolveCollisions(
+        [resizedWidget, ...this.widgets.filter(w => w.id !== id)],
+        cols,
+        rows,
+        id,
+        collisionStrategy,
+        getResizeDirection(widget, resizedWidget),
+        lockedGroups
+      );
+    }
+    return this.change('resize', [id], layout);
+  }
+
+  private planDelete(ids: string[]) {
+    const targets = this.widgets.filter(w => ids.includes(w.id));
+    if (targets.length === 0) {
+      return ids.length === 1
+        ? fail('NOT_FOUND', `Widget "${ids[0]}" does not exist`, ids[0])
+        : fail('NOT_FOUND', 'None of the widgets to delete exist');
+    }
+    const removedIds = targets.filter(w => !this.checkPermission(w, 'delete')).map(w => w.id);
+    if (removedIds.length === 0) return this.checkPermission(targets[0], 'delete')!;
+    return this.change('delete', removedIds, this.widgets.filter(w => !removedIds.includes(w.id)));
+  }
+
+  // A widget leaving for another grid is both moved and deleted here, so it needs both permissions
+  private planRelease(id: string) {
+    const widget = this.widgets.find(w => w.id === id);
+    if (!widget) return fail('NOT_FOUND', `Widget "${id}" does not exist`, id);
+    const denied = this.checkPermission(widget, 'move') ?? this.checkPermission(widget, 'delete');
+    if (denied) return denied;
+    return this.change('transfer', [id], this.widgets.filter(w => w.id !== id));
+  }
+
+  // Copies go into the next free slots; copies that do not fit are left out
+  private planDuplicate(ids: string[]) {
+    const { cols, rows } = this.options;
+    const sources = this.widgets.filter(w => ids.includes(w.id));
+    if (sources.length === 0) return fail('NOT_FOUND', 'None of the widgets to duplicate exist');
+
+    const timestamp = Date.now();
+    const occupancy = new OccupancyIndex(cols, this.widgets);
+    const copies: WidgetState[] = [];
+    sources.forEach((widget, index) => {
+      const position = occupancy.findFreePosition(widget.width, widget.height, rows);
+      if (!position) return;
+      const copy = {
+        ...widget,
+        id: `${widget.id}-copy-${timestamp}-${index}`,
+        props: widget.props ? { ...widget.props } : widget.props,
+        ...position
+      };
+      occupancy.add(copy);
+      copies.push(copy);
+    });
+    if (copies.length === 0) {
+      return fail('NO_SPACE', 'No space available on the grid for the copies');
+    }
+    return this.change('add', copies.map(copy => copy.id), [...this.widgets, ...copies]);
+  }
+
+  private planReceive(widget: WidgetState, preserveId = true) {
+    const { cols, rows, preventOverlap, lockedGroups, widgetTypes, defaultSizeLimits } = this.options;
+    const incoming = applyWidgetType(widget, widgetTypes, defaultSizeLimits);
+    // Ensure id uniqueness if requested
+    let finalId = incoming.id;
+    if (!preserveId || this.widgets.some(w => w.id === incoming.id)) {
+      finalId = `${incoming.id}-${Date.now()}`;
+    }
+
+    const boundedWidget: WidgetState = {
+      ...incoming,
+      id: finalId,
+      x: Math.max(0, Math.min(cols - (incoming.width || 1), incoming.x)),
+      y: Math.max(0, Math.min(rows - (incoming.height || 1), incoming.y)),
+      width: Math.max(1, Math.min(incoming.width || 1, cols)),
+      height: Math.max(1, Math.min(incoming.height || 1, rows))
+    };
+
+    let layout = [...this.widgets, boundedWidget];
+    if (preventOverlap) {
+      layout = reflowWidgets(layout, cols, rows, true, boundedWidget.id, lockedGroups);
+    }
+    return this.change('transfer', [boundedWidget.id], layout);
+  }
+
+  private planCompact(compactType = this.options.compactType ?? 'none') {
+    const { cols, rows, lockedGroups } = this.options;
+    if (compactType === 'none') return this.unchanged('compact', []);
+    return gridSuccess<LayoutAction>({
+      type: 'compact',
+      widgetIds: [],
+      before: this.widgets,
+      after: compactWidgets(this.widgets, compactType, cols, rows, lockedGroups)
+    });
+  }
+}
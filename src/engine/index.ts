@@ -0,0 +1,2 @@
+export { LayoutEngine } from './LayoutEngine';
+export type { LayoutEngineOptions, LayoutChangeListener } from './LayoutEngine';
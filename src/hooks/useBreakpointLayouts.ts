@@ -0,0 +1,87 @@
+// GridTech per-breakpoint layout storage hook
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import type { WidgetState, Breakpoints, BreakpointLayouts } from '../types';
+import { resolveBreakpointLayout, sortBreakpoints } from '../utils/grid/gridBreakpoints';
+
+export interface UseBreakpointLayoutsProps {
+  breakpoints?: Breakpoints;
+  /** Active breakpoint as reported by useResponsiveGrid */
+  breakpoint: string | null;
+  layouts?: BreakpointLayouts;
+  /** Seeds the widest breakpoint when `layouts` has no entry for it */
+  initialWidgets?: WidgetState[];
+  rows: number;
+  preventOverlap: boolean;
+  onBreakpointChange?: (breakpoint: string, cols: number) => void;
+  onLayoutsChange?: (layouts: BreakpointLayouts) => void;
+}
+
+const seedLayouts = (
+  breakpoints: Breakpoints | undefined,
+  layouts: BreakpointLayouts | undefined,
+  initialWidgets: WidgetState[]
+): BreakpointLayouts => {
+  const seeded = { ...(layouts || {}) };
+  if (breakpoints && initialWidgets.length > 0) {
+    const widest = sortBreakpoints(breakpoints)[0];
+    if (widest && !seeded[widest]) {
+      seeded[widest] = initialWidgets;
+    }
+  }
+  return seeded;
+};
+
+export function useBreakpointLayouts({
+  breakpoints,
+  breakpoint,
+  layouts,
+  initialWidgets = [],
+  rows,
+  preventOverlap,
+  onBreakpointChange,
+  onLayoutsChange
+}: UseBreakpointLayoutsProps) {
+  const [storedLayouts, setStoredLayouts] = useState<BreakpointLayouts>(() =>
+    seedLayouts(breakpoints, layouts, initialWidgets)
+  );
+  const previousBreakpoint = useRef(breakpoint);
+
+  // Follow layouts supplied by the parent
+  useEffect(() => {
+    if (layouts) {
+      setStoredLayouts(prev => ({ ...prev, ...layouts }));
+    }
+  }, [layouts]);
+
+  const { layout: activeLayout, derived } = useMemo(() => {
+    if (!breakpoints || !breakpoint) return { layout: [], derived: false };
+    return resolveBreakpointLayout(storedLayouts, breakpoints, breakpoint, rows, preventOverlap);
+  }, [breakpoints, breakpoint, storedLayouts, rows, preventOverlap]);
+
+  // Persist a derived layout so later edits at this breakpoint build on it
+  useEffect(() => {
+    if (!breakpoint || !derived || activeLayout.length === 0) return;
+    const updated = { ...storedLayouts, [breakpoint]: activeLayout };
+    setStoredLayouts(updated);
+    onLayoutsChange?.(updated);
+  }, [breakpoint, derived, activeLayout, storedLayouts, onLayoutsChange]);
+
+  useEffect(() => {
+    if (!breakpoints || !breakpoint || previousBreakpoint.current === breakpoint) return;
+    previousBreakpoint.current = breakpoint;
+    onBreakpointChange?.(breakpoint, breakpoints[breakpoint].cols);
+  }, [breakpoints, breakpoint, onBreakpointChange]);
+
+  const storeLayout = useCallback((widgets: WidgetState[]) => {
+    if (!breakpoint) return;
+    const updated = { ...storedLayouts, [breakpoint]: widgets };
+    setStoredLayouts(updated);
+    onLayoutsChange?.(updated);
+  }, [breakpoint, storedLayouts, onLayoutsChange]);
+
+  return {
+    layouts: storedLayouts,
+    activeLayout,
+    storeLayout
+  };
+}
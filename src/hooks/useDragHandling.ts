@@ -1,9 +1,11 @@
 // GridTech drag handling hook
-import { useState, useCallback } from 'react';
-import type { DragEndEvent, DragStartEvent, DragMoveEvent } from '@dnd-kit/core';
-import type { WidgetState, PreviewState } from '../types';
-import { checkCollision } from '../utils/grid/gridCollision';
-import { reflowWidgets } from '../utils/gridUtils';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import type { RefObject } from 'react';
+import type { Active, DragEndEvent, DragStartEvent, DragMoveEvent } from '@dnd-kit/core';
+import type { WidgetState, PreviewState, LayoutOperation, GridResult } from '../types';
+import type { LayoutEngine } from '../engine/LayoutEngine';
+import { isStaticWidget } from '../utils/grid/gridCollision';
+import { clampGroupDelta } from '../utils/grid/gridMath';
 
 export interface UseDragHandlingProps {
   widgets: WidgetState[];
@@ -11,59 +13,132 @@ export interface UseDragHandlingProps {
   rows: number;
   cellWidth: number;
   cellHeight: number;
+  /** Plans every preview, so it shows exactly what committing the change would do */
+  engine: LayoutEngine;
+  /** Groups whose widgets are treated as static */
+  lockedGroups?: string[];
   onWidgetMove: (id: string, x: number, y: number) => void;
+  /** Return the result when the resize can fail, so commitResize can report whether it was applied */
+  onWidgetResize?: (id: string, width: number, height: number, x?: number, y?: number) => GridResult<unknown> | void;
+  /** Dragging one of these widgets moves all of them together */
+  selectedIds?: string[];
+  onWidgetsMove?: (ids: string[], dx: number, dy: number) => void;
+  /** The grid element; pointer drags are measured against it so scrolling mid-drag is accounted for */
+  gridRef?: RefObject<HTMLElement | null>;
 }
 
+type DragOrigin = {
+  pointer: { x: number; y: number };
+  grid: { left: number; top: number };
+};
+
+// Client position of the mouse, touch or pen that started a drag; null for keyboard drags
+const getClientPoint = (event: Event | null) => {
+  const point = (event as (MouseEvent & TouchEvent) | null);
+  const source = point?.touches?.[0] ?? point?.changedTouches?.[0] ?? point;
+  return typeof source?.clientX === 'number' ? { x: source.clientX, y: source.clientY } : null;
+};
+
+const toRect = ({ id, x, y, width, height }: WidgetState) => ({ id, x, y, width, height });
+
+/** Widget id of a drag source; ids are prefixed with the grid id inside a WidgetGridGroup */
+export const getDraggedWidgetId = (active: Active) =>
+  String(active.data.current?.widgetId ?? active.id);
+
 export function useDragHandling({
   widgets,
   cols,
   rows,
   cellWidth,
   cellHeight,
-  onWidgetMove
+  engine,
+  lockedGroups,
+  onWidgetMove,
+  onWidgetResize,
+  selectedIds = [],
+  onWidgetsMove,
+  gridRef
 }: UseDragHandlingProps) {
   const [draggedId, setDraggedId] = useState<string | null>(null);
   const [preview, setPreview] = useState<PreviewState | null>(null);
   const [hasMoved, setHasMoved] = useState(false);
+  // Cell under the pointer; the preview may show a compacted position instead
+  const dropTarget = useRef<{ x: number; y: number } | null>(null);
+  // Validity of the latest resize preview, read when the gesture is released
+  const resizeValidity = useRef<{ id: string; isValid: boolean } | null>(null);
+  // Pointer and grid position when a pointer drag started, and the live pointer
+  const dragOrigin = useRef<DragOrigin | null>(null);
+  const pointer = useRef<{ x: number; y: number } | null>(null);
+  const lastMove = useRef<DragMoveEvent | null>(null);
+  const handleDragMoveRef = useRef<(event: DragMoveEvent) => void>(() => {});
 
-  const calculateReflow = useCallback((movedWidget: WidgetState) => {
-    const overlapping = widgets.filter(w =>
-      w.id !== movedWidget.id && checkCollision(movedWidget, w)
-    );
-    if (overlapping.length === 0) {
-      return { isValid: true, reflowPreviews: [] };
+  // Drag offset in cells. Pointer drags compare the pointer with the grid's current position, so
+  // the grid scrolling under a still pointer moves the widget; keyboard drags use dnd-kit's delta
+  const getCellDelta = (delta: { x: number; y: number }) => {
+    const origin = dragOrigin.current;
+    const grid = gridRef?.current?.getBoundingClientRect();
+    if (!origin || !pointer.current || !grid) {
+      return { x: Math.round(delta.x / cellWidth), y: Math.round(delta.y / cellHeight) };
     }
-    
-    const testWidgets = [
-      movedWidget,
-      ...overlapping,
-      ...widgets.filter(w =>
-        w.id !== movedWidget.id && !overlapping.find(o => o.id === w.id)
-      )
-    ];
-    
-    const reflowed = reflowWidgets(testWidgets, cols, rows, true, movedWidget.id);
-    const reflowPreviews = reflowed
+    return {
+      x: Math.round((pointer.current.x - grid.left - (origin.pointer.x - origin.grid.left)) / cellWidth),
+      y: Math.round((pointer.current.y - grid.top - (origin.pointer.y - origin.grid.top)) / cellHeight)
+    };
+  };
+
+  // Track the pointer and re-run the drag move when anything scrolls during a pointer drag
+  useEffect(() => {
+    if (!draggedId || !dragOrigin.current) return;
+    const handlePointerMove = (event: PointerEvent) => {
+      pointer.current = { x: event.clientX, y: event.clientY };
+    };
+    const handleScroll = () => {
+      if (lastMove.current) handleDragMoveRef.current(lastMove.current);
+    };
+    document.addEventListener('pointermove', handlePointerMove, { capture: true, passive: true });
+    document.addEventListener('scroll', handleScroll, { capture: true, passive: true });
+    return () => {
+      document.removeEventListener('pointermove', handlePointerMove, { capture: true });
+      document.removeEventListener('scroll', handleScroll, { capture: true });
+    };
+  }, [draggedId]);
+
+  // Read by the preview callbacks so they keep their identity when the layout changes
+  const visibleIds = useRef(new Set<string>());
+  useEffect(() => {
+    visibleIds.current = new Set(widgets.map(w => w.id));
+  }, [widgets]);
+
+  // Preview of a planned change: where the changed widgets end up and which of this grid's
+  // other widgets it moves, or null when the engine rejects the change
+  const planPreview = useCallback((operation: LayoutOperation) => {
+    const planned = engine.plan(operation);
+    if (!planned.ok) return null;
+    const { before, after, widgetIds: activeIds } = planned.value;
+    const previous = new Map(before.map(w => [w.id, w]));
+    const reflowPreviews = after
       .filter(w => {
-        const original = widgets.find(ow => ow.id === w.id);
+        const original = previous.get(w.id);
         return original &&
-          w.id !== movedWidget.id &&
+          visibleIds.current.has(w.id) &&
+          !activeIds.includes(w.id) &&
           (original.x !== w.x || original.y !== w.y);
       })
-      .map(w => ({
-        id: w.id,
-        x: w.x,
-        y: w.y,
-        width: w.width,
-        height: w.height
-      }));
-    return { isValid: true, reflowPreviews };
-  }, [widgets, cols, rows]);
+      .map(toRect);
+    const active = after.filter(w => activeIds.includes(w.id)).map(toRect);
+    return { reflowPreviews, active };
+  }, [engine]);
 
   const handleDragStart = useCallback((event: DragStartEvent) => {
-    setDraggedId(String(event.active.id));
+    const start = getClientPoint(event.activatorEvent);
+    const grid = gridRef?.current?.getBoundingClientRect();
+    dragOrigin.current = start && grid ? { pointer: start, grid: { left: grid.left, top: grid.top } } : null;
+    pointer.current = start;
+    lastMove.current = null;
+    setDraggedId(getDraggedWidgetId(event.active));
     setHasMoved(false);
-  }, []);
+    dropTarget.current = null;
+  }, [gridRef]);
 
   const handleDragMove = useCallback((event: DragMoveEvent) => {
     const { active, delta } = event;
@@ -73,14 +148,46 @@ export function useDragHandling({
     }
 
     setHasMoved(true);
-    const widget = widgets.find(w => w.id === active.id);
-    if (!widget) {
+    lastMove.current = event;
+    const widget = widgets.find(w => w.id === getDraggedWidgetId(active));
+    if (!widget || isStaticWidget(widget, lockedGroups)) {
       setPreview(null);
       return;
     }
 
-    const deltaX = Math.round(delta.x / cellWidth);
-    const deltaY = Math.round(delta.y / cellHeight);
+    const { x: deltaX, y: deltaY } = getCellDelta(delta);
+
+    // Static widgets in the selection stay where they are
+    const group = selectedIds.includes(widget.id)
+      ? widgets.filter(w => selectedIds.includes(w.id) && !isStaticWidget(w, lockedGroups))
+      : [];
+    if (group.length > 1) {
+      const groupDelta = clampGroupDelta(group, deltaX, deltaY, cols, rows);
+      const target = dropTarget.current;
+      const x = widget.x + groupDelta.dx;
+      const y = widget.y + groupDelta.dy;
+      if (preview && target && target.x === x && target.y === y) {
+        return;
+      }
+      dropTarget.current = { x, y };
+
+      const ids = group.map(w => w.id);
+      const planned = planPreview({ type: 'moveGroup', ids, dx: groupDelta.dx, dy: groupDelta.dy });
+      if (!planned) {
+        setPreview({ ...widget, x, y, isValid: false, reflowPreviews: [] });
+        return;
+      }
+      const settled = planned.active.find(p => p.id === widget.id);
+      setPreview({
+        ...widget,
+        x: settled?.x ?? x,
+        y: settled?.y ?? y,
+        isValid: true,
+        reflowPreviews: planned.reflowPreviews,
+        groupPreviews: planned.active.filter(p => p.id !== widget.id)
+      });
+      return;
+    }
 
     const previewWidget = {
       ...widget,
@@ -88,46 +195,123 @@ export function useDragHandling({
       y: Math.max(0, Math.min(rows - widget.height, widget.y + deltaY))
     };
 
-    if (preview && preview.x === previewWidget.x && preview.y === previewWidget.y) {
+    const target = dropTarget.current;
+    if (preview && target && target.x === previewWidget.x && target.y === previewWidget.y) {
       return;
     }
+    dropTarget.current = { x: previewWidget.x, y: previewWidget.y };
 
-    try {
-      const { reflowPreviews } = calculateReflow(previewWidget);
-      setPreview({ ...previewWidget, isValid: true, reflowPreviews });
-    } catch (error) {
-      setPreview({ ...previewWidget, isValid: false, reflowPreviews: [] });
-    }
-  }, [widgets, cols, rows, cellWidth, cellHeight, preview, calculateReflow]);
+    const planned = planPreview({ type: 'move', id: widget.id, x: previewWidget.x, y: previewWidget.y });
+    const settled = planned?.active[0];
+    setPreview(planned && settled
+      ? { ...previewWidget, x: settled.x, y: settled.y, isValid: true, reflowPreviews: planned.reflowPreviews }
+      : { ...previewWidget, isValid: false, reflowPreviews: [] });
+  }, [widgets, cols, rows, cellWidth, cellHeight, preview, selectedIds, lockedGroups, gridRef, planPreview]);
+  handleDragMoveRef.current = handleDragMove;
 
   const handleDragEnd = useCallback((event: DragEndEvent) => {
     const { active } = event;
+    const target = dropTarget.current;
     
     setDraggedId(null);
     setPreview(null);
     setHasMoved(false);
+    dropTarget.current = null;
+    dragOrigin.current = null;
+    lastMove.current = null;
 
-    if (!active || !preview || !hasMoved) {
+    if (!active || !preview || !target || !hasMoved) {
       return;
     }
 
-    if (preview.isValid) {
-      onWidgetMove(String(active.id), preview.x, preview.y);
+    if (!preview.isValid) return;
+
+    // Commit the hovered cell; the move applies the same compaction as the preview
+    const widget = widgets.find(w => w.id === getDraggedWidgetId(active));
+    if (preview.groupPreviews && widget && onWidgetsMove) {
+      const ids = [widget.id, ...preview.groupPreviews.map(p => p.id)];
+      onWidgetsMove(ids, target.x - widget.x, target.y - widget.y);
+    } else {
+      onWidgetMove(getDraggedWidgetId(active), target.x, target.y);
     }
-  }, [preview, hasMoved, onWidgetMove]);
+  }, [widgets, preview, hasMoved, onWidgetMove, onWidgetsMove]);
 
   const handleDragCancel = useCallback(() => {
     setPreview(null);
     setDraggedId(null);
     setHasMoved(false);
+    dropTarget.current = null;
+    dragOrigin.current = null;
+    lastMove.current = null;
   }, []);
 
+  // Drops into another grid clear the source preview but keep the drag going
+  const clearPreview = useCallback(() => {
+    setPreview(null);
+    dropTarget.current = null;
+  }, []);
+
+  // Preview a widget that is not in this grid yet (cross-grid and palette drops); returns whether it fits.
+  // A given validity shows the widget as-is without reflowing its neighbours
+  const updateExternalPreview = useCallback((widget: WidgetState | null, validity?: boolean) => {
+    if (!widget) {
+      setPreview(null);
+      return false;
+    }
+    if (validity !== undefined) {
+      setPreview({ ...widget, isValid: validity, reflowPreviews: [] });
+      return validity;
+    }
+    const planned = planPreview({ type: 'receive', widget, preserveId: true });
+    const placed = planned?.active[0];
+    setPreview(planned && placed
+      ? { ...widget, x: placed.x, y: placed.y, isValid: true, reflowPreviews: planned.reflowPreviews }
+      : { ...widget, isValid: false, reflowPreviews: [] });
+    return !!placed;
+  }, [planPreview]);
+
+  // Resize gestures share the drag preview so collisions are shown the same way
+  const updateResizePreview = useCallback((
+    id: string,
+    rect: { x: number; y: number; width: number; height: number } | null
+  ) => {
+    const widget = engine.getWidgets().find(w => w.id === id);
+    if (!rect || !widget) {
+      setPreview(null);
+      resizeValidity.current = null;
+      return;
+    }
+
+    const resizedWidget = { ...widget, ...rect };
+    const planned = planPreview({ type: 'resize', id, ...rect });
+    const settled = planned?.active[0];
+    setPreview(planned && settled
+      ? { ...resizedWidget, x: settled.x, y: settled.y, isValid: true, reflowPreviews: planned.reflowPreviews }
+      : { ...resizedWidget, isValid: false, reflowPreviews: [] });
+    resizeValidity.current = { id, isValid: !!settled };
+  }, [engine, planPreview]);
+
+  // Commit a released resize unless its last preview was invalid
+  // Returns whether the resize was applied; resizes released over an invalid preview are dropped
+  const commitResize = useCallback((id: string, width: number, height: number, x?: number, y?: number) => {
+    const validity = resizeValidity.current;
+    resizeValidity.current = null;
+    setPreview(null);
+    if (!onWidgetResize || (validity && validity.id === id && !validity.isValid)) return false;
+    const result = onWidgetResize(id, width, height, x, y);
+    return result ? result.ok : true;
+  }, [onWidgetResize]);
+
   return {
     draggedId,
     preview,
     handleDragStart,
     handleDragMove,
     handleDragEnd,
-    handleDragCancel
+    handleDragCancel,
+    updateResizePreview,
+    commitResize,
+    clearPreview,
+    updateExternalPreview
   };
 }
@@ -0,0 +1,47 @@
+// GridTech edge auto-scroll hook
+import { useEffect } from 'react';
+import type { RefObject } from 'react';
+import { getScrollParent, getViewportRect, getEdgeScrollDelta } from '../utils/grid/gridViewport';
+
+export interface UseEdgeAutoScrollProps {
+  /** Scroll while true, e.g. during a drag, resize or placement */
+  active: boolean;
+  /** The grid element; its nearest scroll container (or the window) is scrolled */
+  gridRef: RefObject<HTMLElement | null>;
+  /** Distance in px from a viewport edge where scrolling starts */
+  threshold?: number;
+  /** Maximum scroll step in px per frame, reached at the edge */
+  speed?: number;
+}
+
+/** Scrolls the grid's scroll container while the pointer is held near its edges */
+export function useEdgeAutoScroll({ active, gridRef, threshold = 40, speed = 15 }: UseEdgeAutoScrollProps) {
+  useEffect(() => {
+    if (!active) return;
+    const scrollParent = getScrollParent(gridRef.current);
+    let pointer: { x: number; y: number } | null = null;
+    let frame = 0;
+
+    const tick = () => {
+      frame = requestAnimationFrame(tick);
+      if (!pointer) return;
+      const delta = getEdgeScrollDelta(pointer, getViewportRect(scrollParent), threshold, speed);
+      if (delta.x === 0 && delta.y === 0) return;
+      if (scrollParent) {
+        scrollParent.scrollBy(delta.x, delta.y);
+      } else {
+        window.scrollBy(delta.x, delta.y);
+      }
+    };
+    const handlePointerMove = (event: PointerEvent) => {
+      pointer = { x: event.clientX, y: event.clientY };
+    };
+
+    document.addEventListener('pointermove', handlePointerMove, { passive: true });
+    frame = requestAnimationFrame(tick);
+    return () => {
+      cancelAnimationFrame(frame);
+      document.removeEventListener('pointermove', handlePointerMove);
+    };
+  }, [active, gridRef, threshold, speed]);
+}
@@ -0,0 +1,63 @@
+// GridTech layout history hook
+import { useRef, useState, useCallback, useMemo } from 'react';
+import type { WidgetState } from '../types';
+
+export interface UseLayoutHistoryProps {
+  /** Maximum number of undo steps kept */
+  maxDepth?: number;
+}
+
+export function useLayoutHistory({
+  maxDepth = 50
+}: UseLayoutHistoryProps = {}) {
+  const past = useRef<WidgetState[][]>([]);
+  const future = useRef<WidgetState[][]>([]);
+  // Bumped on every stack change so canUndo/canRedo consumers re-render
+  const [, setRevision] = useState(0);
+
+  const record = useCallback((previous: WidgetState[]) => {
+    if (maxDepth <= 0) return;
+
+    past.current = [...past.current, previous].slice(-maxDepth);
+    future.current = [];
+    setRevision(r => r + 1);
+  }, [maxDepth]);
+
+  const undo = useCallback((current: WidgetState[]): WidgetState[] | null => {
+    const entry = past.current[past.current.length - 1];
+    if (!entry) return null;
+
+    past.current = past.current.slice(0, -1);
+    future.current = [...future.current, current];
+    setRevision(r => r + 1);
+    return entry;
+  }, []);
+
+  const redo = useCallback((current: WidgetState[]): WidgetState[] | null => {
+    const entry = future.current[future.current.length - 1];
+    if (!entry) return null;
+
+    future.current = future.current.slice(0, -1);
+    past.current = [...past.current, current].slice(-maxDepth);
+    setRevision(r => r + 1);
+    return entry;
+  }, [maxDepth]);
+
+  const clear = useCallback(() => {
+    past.current = [];
+    future.current = [];
+    setRevision(r => r + 1);
+  }, []);
+
+  const canUndo = useCallback(() => past.current.length > 0, []);
+  const canRedo = useCallback(() => future.current.length > 0, []);
+
+  return useMemo(() => ({
+    record,
+    undo,
+    redo,
+    clear,
+    canUndo,
+    canRedo
+  }), [record, undo, redo, clear, canUndo, canRedo]);
+}
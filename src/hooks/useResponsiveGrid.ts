@@ -1,6 +1,8 @@
 // GridTech responsive calculations hook
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { Breakpoints } from '../types';
 import { getCellSize } from '../utils/grid/gridMath';
+import { getBreakpointFromWidth } from '../utils/grid/gridBreakpoints';
 
 export interface UseResponsiveGridProps {
   cols: number;
@@ -8,6 +10,16 @@ export interface UseResponsiveGridProps {
   maxWidth?: number;
   maxHeight?: number;
   minCellSize?: number;
+  /** Size cells from the available width only (row count is unbounded) */
+  autoRows?: boolean;
+  /** Named breakpoints; the active one overrides `cols` */
+  breakpoints?: Breakpoints;
+  /** Fixed cell width in px; disables responsive scaling */
+  cellWidth?: number;
+  /** Fixed cell height in px; disables responsive scaling */
+  cellHeight?: number;
+  /** Also fit the grid into the measured container height */
+  fitHeight?: boolean;
 }
 
 export function useResponsiveGrid({
@@ -15,27 +27,56 @@ export function useResponsiveGrid({
   rows,
   maxWidth = 1200,
   maxHeight = 600,
-  minCellSize = 20
+  minCellSize = 20,
+  autoRows = false,
+  breakpoints,
+  cellWidth: fixedCellWidth,
+  cellHeight: fixedCellHeight,
+  fitHeight = false
 }: UseResponsiveGridProps) {
-  const [windowSize, setWindowSize] = useState({ 
-    width: window.innerWidth, 
-    height: window.innerHeight 
-  });
-
-  useEffect(() => {
-    const handleResize = () => {
-      setWindowSize({ width: window.innerWidth, height: window.innerHeight });
-    };
-    window.addEventListener('resize', handleResize);
-    return () => window.removeEventListener('resize', handleResize);
+  // Nothing is measured during server rendering; sizes fall back to maxWidth/maxHeight
+  const [containerSize, setContainerSize] = useState({ width: 0, height: 0 });
+  const observer = useRef<ResizeObserver | null>(null);
+
+  // Attach to the grid's root element; the parent is measured because the grid itself
+  // is only as wide as its content
+  const containerRef = useCallback((element: HTMLElement | null) => {
+    observer.current?.disconnect();
+    observer.current = null;
+
+    const target = element?.parentElement;
+    if (!target || typeof ResizeObserver === 'undefined') return;
+
+    observer.current = new ResizeObserver(entries => {
+      const { width, height } = entries[0].contentRect;
+      setContainerSize(prev =>
+        prev.width === width && prev.height === height ? prev : { width, height }
+      );
+    });
+    observer.current.observe(target);
   }, []);
 
+  useEffect(() => () => observer.current?.disconnect(), []);
+
+  const measuredWidth = containerSize.width > 0 ? containerSize.width : maxWidth;
+  const breakpoint = breakpoints ? getBreakpointFromWidth(breakpoints, measuredWidth) : null;
+  const activeCols = breakpoints && breakpoint ? breakpoints[breakpoint].cols : cols;
+
   const calculateDimensions = () => {
-    const availableWidth = Math.min(windowSize.width - 80, maxWidth);
-    const availableHeight = Math.min(windowSize.height - 200, maxHeight);
-    
-    const { cellWidth, cellHeight } = getCellSize(availableWidth, availableHeight, cols, rows);
-    const responsiveCellSize = Math.min(cellWidth, cellHeight);
+    if (fixedCellWidth || fixedCellHeight) {
+      return {
+        cellWidth: fixedCellWidth ?? fixedCellHeight!,
+        cellHeight: fixedCellHeight ?? fixedCellWidth!
+      };
+    }
+
+    const availableWidth = Math.min(measuredWidth, maxWidth);
+    const availableHeight = fitHeight && containerSize.height > 0
+      ? Math.min(containerSize.height, maxHeight)
+      : maxHeight;
+
+    const { cellWidth, cellHeight } = getCellSize(availableWidth, availableHeight, activeCols, rows);
+    const responsiveCellSize = autoRows ? cellWidth : Math.min(cellWidth, cellHeight);
 
     return {
       cellWidth: Math.max(responsiveCellSize, minCellSize),
@@ -46,9 +87,14 @@ export function useResponsiveGrid({
   const dimensions = calculateDimensions();
 
   return {
+    containerRef,
+    containerWidth: containerSize.width,
+    containerHeight: containerSize.height,
+    breakpoint,
+    cols: activeCols,
     cellWidth: dimensions.cellWidth,
     cellHeight: dimensions.cellHeight,
-    gridWidth: cols * dimensions.cellWidth,
+    gridWidth: activeCols * dimensions.cellWidth,
     gridHeight: rows * dimensions.cellHeight
   };
 }
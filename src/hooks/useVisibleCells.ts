@@ -0,0 +1,67 @@
+// GridTech viewport virtualization hook
+import { useState, useEffect } from 'react';
+import type { RefObject } from 'react';
+import { getScrollParent, getViewportRect, getVisibleCells } from '../utils/grid/gridViewport';
+
+export interface UseVisibleCellsProps {
+  /** Measure the viewport; when false the hook returns null */
+  enabled: boolean;
+  /** The element widgets are positioned in */
+  gridRef: RefObject<HTMLElement | null>;
+  cellWidth: number;
+  cellHeight: number;
+  /** Cells kept beyond each edge of the viewport */
+  overscan?: number;
+}
+
+type CellRect = { x: number; y: number; width: number; height: number };
+
+// Before the first measurement nothing counts as visible
+const NO_CELLS: CellRect = { x: 0, y: 0, width: 0, height: 0 };
+
+const sameRect = (a: CellRect, b: CellRect) =>
+  a.x === b.x && a.y === b.y && a.width === b.width && a.height === b.height;
+
+/**
+ * Cells of the grid inside its scroll viewport plus overscan, or null when
+ * disabled. Updates at most once per frame and only when the range changes.
+ */
+export function useVisibleCells({
+  enabled,
+  gridRef,
+  cellWidth,
+  cellHeight,
+  overscan = 2
+}: UseVisibleCellsProps): CellRect | null {
+  const [cells, setCells] = useState<CellRect>(NO_CELLS);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let scrollParent = getScrollParent(gridRef.current);
+    let frame = 0;
+
+    const measure = () => {
+      frame = 0;
+      const grid = gridRef.current;
+      if (!grid) return;
+      if (scrollParent && !scrollParent.isConnected) scrollParent = getScrollParent(grid);
+      const next = getVisibleCells(grid.getBoundingClientRect(), getViewportRect(scrollParent), cellWidth, cellHeight, overscan);
+      setCells(prev => sameRect(prev, next) ? prev : next);
+    };
+    const schedule = () => {
+      if (!frame) frame = requestAnimationFrame(measure);
+    };
+
+    measure();
+    // Capture catches scrolling of the scroll parent and of any ancestor around it
+    document.addEventListener('scroll', schedule, { capture: true, passive: true });
+    window.addEventListener('resize', schedule);
+    return () => {
+      cancelAnimationFrame(frame);
+      document.removeEventListener('scroll', schedule, { capture: true });
+      window.removeEventListener('resize', schedule);
+    };
+  }, [enabled, gridRef, cellWidth, cellHeight, overscan]);
+
+  return enabled ? cells : null;
+}
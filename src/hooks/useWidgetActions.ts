@@ -1,147 +1,285 @@
 // GridTech widget management hook
-import { useState, useCallback } from 'react';
-import type { WidgetState } from '../types';
-import { validateWidgetPosition, reflowWidgets } from '../utils/gridUtils';
-import { checkCollision } from '../utils/grid/gridCollision';
-import { getNextAvailablePosition } from '../utils/grid/gridPlacement';
+import { useState, useCallback, useEffect, useLayoutEffect } from 'react';
+import type {
+  WidgetState, CompactType, CollisionStrategy, LayoutAction, LayoutOperation, BeforeLayoutChange,
+  GridError, GridResult, CanEditWidget, WidgetSizeLimits, WidgetTypeRegistry
+} from '../types';
+import { gridSuccess, gridFailure } from '../utils/gridErrors';
+import { LayoutEngine } from '../engine/LayoutEngine';
+import { useLayoutHistory } from './useLayoutHistory';
 
 export interface UseWidgetActionsProps {
   cols: number;
   rows: number;
   preventOverlap: boolean;
   defaultWidgetSize: { w: number; h: number };
+  /** Limits for widgets whose own and type limits leave them unset, as the grid's defaultSizeLimits */
+  defaultSizeLimits?: WidgetSizeLimits;
+  /** Per-type size limits and default props applied to every widget this hook adds */
+  widgetTypes?: WidgetTypeRegistry;
+  /** Float widgets up (or left) into free space after every change */
+  compactType?: CompactType;
+  /** Push colliding widgets along the move direction instead of relocating them */
+  collisionStrategy?: CollisionStrategy;
+  /** Groups whose widgets are treated as static */
+  lockedGroups?: string[];
+  /** Return false to forbid moving, resizing or deleting a widget */
+  canEdit?: CanEditWidget;
   initialWidgets?: WidgetState[];
+  /** Controlled layout; when set the hook never stores widgets itself and reports every change instead */
+  widgets?: WidgetState[];
+  /** Maximum number of undo steps kept (0 disables history) */
+  historyDepth?: number;
   onWidgetAdd?: (widget: WidgetState) => void;
   onWidgetMove?: (widget: WidgetState) => void;
   onWidgetResize?: (widget: WidgetState) => void;
   onWidgetDelete?: (widgetId: string) => void;
   onWidgetsChange?: (widgets: WidgetState[]) => void;
+  /** Called with the new layout and the action that produced it */
+  onLayoutChange?: (widgets: WidgetState[], action: LayoutAction) => void;
+  /** Veto (return false) or rewrite (return a layout) a change before it is applied */
+  onBeforeChange?: BeforeLayoutChange;
+  /** Called when an action fails; vetoes are returned but not reported here */
+  onError?: (error: GridError) => void;
 }
 
+// Layout effects run before the browser paints and before any event handler; servers have neither
+const useEngineSyncEffect = typeof window === 'undefined' ? useEffect : useLayoutEffect;
+
+const VETOED: GridError = { code: 'VETOED', message: 'The change was rejected by onBeforeChange' };
+
 export function useWidgetActions({
   cols,
   rows,
   preventOverlap,
   defaultWidgetSize,
+  defaultSizeLimits,
+  widgetTypes,
+  compactType = 'none',
+  collisionStrategy = 'relocate',
+  lockedGroups,
+  canEdit,
   initialWidgets = [],
+  widgets: controlledWidgets,
+  historyDepth = 50,
   onWidgetAdd,
   onWidgetMove,
   onWidgetResize,
   onWidgetDelete,
   onWidgetsChange,
+  onLayoutChange,
+  onBeforeChange,
+  onError,
 }: UseWidgetActionsProps) {
-  const [widgets, setWidgets] = useState<WidgetState[]>(initialWidgets);
-
-  const generateUniqueId = useCallback(() => {
-    const existingIds = widgets
-      .map(w => {
-        const match = w.id.match(/widget-(\d+)/);
-        return match ? parseInt(match[1]) : 0;
-      })
-      .filter(n => !isNaN(n));
-    const highestId = Math.max(0, ...existingIds);
-    const timestamp = Date.now();
-    return `widget-${highestId + 1}-${timestamp}`;
-  }, [widgets]);
-
-  const addWidget = useCallback((type: string = "default", props: Record<string, any> = {}) => {
-    const position = getNextAvailablePosition(
-      widgets.map(w => ({ x: w.x, y: w.y, width: w.width, height: w.height })),
+  const [internalWidgets, setWidgets] = useState<WidgetState[]>(initialWidgets);
+  const isControlled = controlledWidgets !== undefined;
+  const widgets = controlledWidgets ?? internalWidgets;
+  const history = useLayoutHistory({ maxDepth: historyDepth });
+
+  // One engine per grid; every accepted change is committed through it so its subscribers are
+  // notified. Options and the rendered layout are pushed into it after React commits a render,
+  // which is before any event handler can plan with it
+  const [engine] = useState(() => new LayoutEngine({
+    cols,
+    rows,
+    preventOverlap,
+    defaultWidgetSize,
+    defaultSizeLimits,
+    widgetTypes,
+    compactType,
+    collisionStrategy,
+    lockedGroups,
+    canEdit
+  }, widgets));
+
+  useEngineSyncEffect(() => {
+    engine.setOptions({
       cols,
       rows,
-      defaultWidgetSize.w,
-      defaultWidgetSize.h
-    );
-    
-    if (!position) {
-      alert('No more space available on the grid for new widgets!');
-      return;
+      preventOverlap,
+      defaultWidgetSize,
+      defaultSizeLimits,
+      widgetTypes,
+      compactType,
+      collisionStrategy,
+      lockedGroups,
+      canEdit
+    });
+  }, [engine, cols, rows, preventOverlap, defaultWidgetSize, defaultSizeLimits, widgetTypes, compactType, collisionStrategy,
+      lockedGroups, canEdit]);
+
+  useEngineSyncEffect(() => {
+    if (engine.getWidgets() !== widgets) engine.setWidgets(widgets);
+  }, [engine, widgets]);
+
+  // Store (uncontrolled) and report a layout that has already been accepted
+  const applyWidgets = useCallback((action: LayoutAction) => {
+    engine.commit(action);
+    if (!isControlled) {
+      setWidgets(action.after);
     }
+    onLayoutChange?.(action.after, action);
+    onWidgetsChange?.(action.after);
+  }, [engine, isControlled, onLayoutChange, onWidgetsChange]);
 
-    const newWidget: WidgetState = {
-      id: generateUniqueId(),
-      width: defaultWidgetSize.w,
-      height: defaultWidgetSize.h,
-      x: position.x,
-      y: position.y,
-      type,
-      props,
-    };
-
-    const validation = validateWidgetPosition(newWidget, widgets, cols, rows, preventOverlap);
-    const finalWidget = validation.isValid ? newWidget : {
-      ...newWidget,
-      ...(validation.suggestedPosition || { x: 0, y: 0 })
-    };
-
-    const updatedWidgets = [...widgets, finalWidget];
-    setWidgets(updatedWidgets);
-    onWidgetAdd?.(finalWidget);
-    onWidgetsChange?.(updatedWidgets);
-  }, [widgets, cols, rows, defaultWidgetSize, preventOverlap, generateUniqueId, onWidgetAdd, onWidgetsChange]);
-
-  const moveWidget = useCallback((id: string, x: number, y: number) => {
-    const widget = widgets.find(w => w.id === id);
-    if (!widget) return;
-
-    const movedWidget = { ...widget, x, y };
-    let updatedWidgets = widgets.map(w => w.id === id ? movedWidget : w);
-
-    if (preventOverlap) {
-      try {
-        updatedWidgets = reflowWidgets(updatedWidgets, cols, rows, true, id);
-      } catch (error) {
-        alert('Cannot move widget - not enough space available!');
-        return;
-      }
+  // Run a planned change past onBeforeChange, record the previous layout for undo and apply it.
+  // Returns the applied layout, or null when the change was vetoed.
+  const commitAction = useCallback((action: LayoutAction): WidgetState[] | null => {
+    const decision = onBeforeChange?.(action);
+    if (decision === false) return null;
+    if (Array.isArray(decision)) {
+      action.after = decision;
     }
 
-    setWidgets(updatedWidgets);
-    onWidgetMove?.(movedWidget);
-    onWidgetsChange?.(updatedWidgets);
-  }, [widgets, cols, rows, preventOverlap, onWidgetMove, onWidgetsChange]);
-
-  const resizeWidget = useCallback((id: string, width: number, height: number) => {
-    const widget = widgets.find(w => w.id === id);
-    if (!widget) return;
-
-    const resizedWidget = {
-      ...widget,
-      width: Math.max(1, Math.min(width, cols - widget.x)),
-      height: Math.max(1, Math.min(height, rows - widget.y))
-    };
-
-    if (preventOverlap) {
-      const hasCollision = widgets.some(otherWidget =>
-        otherWidget.id !== id && checkCollision(resizedWidget, otherWidget)
-      );
-
-      if (hasCollision) {
-        try {
-          const allWidgets = [resizedWidget, ...widgets.filter(w => w.id !== id)];
-          const updatedWidgets = reflowWidgets(allWidgets, cols, rows, true, id);
-          setWidgets(updatedWidgets);
-          onWidgetResize?.(resizedWidget);
-          onWidgetsChange?.(updatedWidgets);
-        } catch (error) {
-          alert('Cannot resize widget - not enough space available!');
-        }
-        return;
-      }
+    history.record(action.before);
+    applyWidgets(action);
+    return action.after;
+  }, [history, onBeforeChange, applyWidgets]);
+
+  // Report a failed action and return it as a result
+  const fail = useCallback(<T>(error: GridError): GridResult<T> => {
+    onError?.(error);
+    return gridFailure<T>(error);
+  }, [onError]);
+
+  // Plan an operation with the engine and commit it; returns the widgets it changed
+  // as applied (removed ones as they were), or a failure when planning failed or it was vetoed
+  const run = useCallback((operation: LayoutOperation): GridResult<WidgetState[]> => {
+    const planned = engine.plan(operation);
+    if (!planned.ok) return fail(planned.error);
+    const { widgetIds, before, after } = planned.value;
+
+    const committed = after === before ? before : commitAction({ ...planned.value });
+    if (!committed) return gridFailure(VETOED);
+    return gridSuccess(widgetIds.flatMap(id => {
+      const widget = committed.find(w => w.id === id) ?? after.find(w => w.id === id) ?? before.find(w => w.id === id);
+      return widget ? [widget] : [];
+    }));
+  }, [engine, fail, commitAction]);
+
+  // size defaults to the type's defaultSize, then defaultWidgetSize
+  const addWidget = useCallback((
+    type: string = "default",
+    props: Record<string, any> = {},
+    size?: { w: number; h: number }
+  ): GridResult<WidgetState> => {
+    const result = run({ type: 'add', widgetType: type, props, size });
+    if (!result.ok) return result;
+    onWidgetAdd?.(result.value[0]);
+    return gridSuccess(result.value[0]);
+  }, [run, onWidgetAdd]);
+
+  // Add a widget at the position it already has (placement mode, palette drops);
+  // relocate moves it to a free slot instead of failing when its cells are taken
+  const placeWidget = useCallback((widget: WidgetState, relocate: boolean = false): GridResult<WidgetState> => {
+    const result = run({ type: 'place', widget, relocate });
+    if (!result.ok) return result;
+    onWidgetAdd?.(result.value[0]);
+    return gridSuccess(result.value[0]);
+  }, [run, onWidgetAdd]);
+
+  // Where a new widget would be placed, without adding it
+  const findPlacement = useCallback((widget: WidgetState) => engine.findPlacement(widget), [engine]);
+
+  const moveWidget = useCallback((id: string, x: number, y: number): GridResult<WidgetState> => {
+    const result = run({ type: 'move', id, x, y });
+    if (!result.ok) return result;
+    onWidgetMove?.(result.value[0]);
+    return gridSuccess(result.value[0]);
+  }, [run, onWidgetMove]);
+
+  // Move several widgets by the same delta as one rigid block; displaced widgets are relocated
+  const moveWidgets = useCallback((ids: string[], dx: number, dy: number): GridResult<WidgetState[]> => {
+    const result = run({ type: 'moveGroup', ids, dx, dy });
+    if (result.ok && (dx !== 0 || dy !== 0)) {
+      result.value.forEach(w => onWidgetMove?.(w));
     }
+    return result;
+  }, [run, onWidgetMove]);
 
-    const updatedWidgets = widgets.map(w => w.id === id ? resizedWidget : w);
-    setWidgets(updatedWidgets);
-    onWidgetResize?.(resizedWidget);
-    onWidgetsChange?.(updatedWidgets);
-  }, [widgets, cols, rows, preventOverlap, onWidgetResize, onWidgetsChange]);
+  // x/y are given when a north or west handle moved the widget's origin
+  const resizeWidget = useCallback((
+    id: string,
+    width: number,
+    height: number,
+    x?: number,
+    y?: number
+  ): GridResult<WidgetState> => {
+    // Resizes are committed once per gesture (on release or key press), so each is its own undo step
+    const result = run({ type: 'resize', id, width, height, x, y });
+    if (!result.ok) return result;
+    onWidgetResize?.(result.value[0]);
+    return gridSuccess(result.value[0]);
+  }, [run, onWidgetResize]);
 
-  const deleteWidget = useCallback((id: string) => {
-    const updatedWidgets = widgets.filter(w => w.id !== id);
-    setWidgets(updatedWidgets);
+  const deleteWidget = useCallback((id: string): GridResult => {
+    const result = run({ type: 'delete', ids: [id] });
+    if (!result.ok) return result;
     onWidgetDelete?.(id);
-    onWidgetsChange?.(updatedWidgets);
-  }, [widgets, onWidgetDelete, onWidgetsChange]);
+    return gridSuccess(undefined);
+  }, [run, onWidgetDelete]);
+
+  // Remove several widgets as a single undoable change; widgets that may not be deleted are kept
+  const deleteWidgets = useCallback((ids: string[]): GridResult<string[]> => {
+    if (!engine.getWidgets().some(w => ids.includes(w.id))) return gridSuccess([]);
+    const result = run({ type: 'delete', ids });
+    if (!result.ok) return result;
+    const removedIds = result.value.map(w => w.id);
+    removedIds.forEach(id => onWidgetDelete?.(id));
+    return gridSuccess(removedIds);
+  }, [engine, run, onWidgetDelete]);
+
+  // Copy widgets into the next free slots; returns the ids of the copies that fit
+  const duplicateWidgets = useCallback((ids: string[]): GridResult<string[]> => {
+    if (!engine.getWidgets().some(w => ids.includes(w.id))) return gridSuccess([]);
+    const result = run({ type: 'duplicate', ids });
+    if (!result.ok) return result;
+    result.value.forEach(copy => onWidgetAdd?.(copy));
+    return gridSuccess(result.value.map(copy => copy.id));
+  }, [engine, run, onWidgetAdd]);
+
+  // Add a widget coming from another grid (cross-grid transfer) and return it as placed
+  const addWidgetFromExternal = useCallback((widget: WidgetState, preserveId: boolean = true): GridResult<WidgetState> => {
+    const result = run({ type: 'receive', widget, preserveId });
+    if (!result.ok) return result;
+    onWidgetAdd?.(result.value[0]);
+    return gridSuccess(result.value[0]);
+  }, [run, onWidgetAdd]);
+
+  // Remove a widget that moved to another grid
+  const releaseWidget = useCallback((id: string): GridResult => {
+    const result = run({ type: 'release', id });
+    return result.ok ? gridSuccess(undefined) : result;
+  }, [run]);
+
+  // Replace the whole layout as a single undoable change (clear all, import, Escape)
+  const replaceWidgets = useCallback((layout: WidgetState[]): GridResult => {
+    const result = run({ type: 'replace', widgets: layout });
+    return result.ok ? gridSuccess(undefined) : result;
+  }, [run]);
+
+  // Compact the layout once, e.g. with compactType 'none' set on the grid
+  const compact = useCallback((type?: CompactType): GridResult => {
+    const result = run({ type: 'compact', compactType: type });
+    return result.ok ? gridSuccess(undefined) : result;
+  }, [run]);
+
+  // History steps bypass onBeforeChange; the stacks have already moved
+  const undo = useCallback(() => {
+    const current = engine.getWidgets();
+    const previous = history.undo(current);
+    if (!previous) return false;
+    applyWidgets({ type: 'undo', widgetIds: [], before: current, after: previous });
+    return true;
+  }, [engine, history, applyWidgets]);
+
+  const redo = useCallback(() => {
+    const current = engine.getWidgets();
+    const next = history.redo(current);
+    if (!next) return false;
+    applyWidgets({ type: 'redo', widgetIds: [], before: current, after: next });
+    return true;
+  }, [engine, history, applyWidgets]);
 
   const setInitialWidgets = useCallback((initialWidgets: WidgetState[]) => {
     const cleanWidgets = initialWidgets.map((widget, index) => {
@@ -161,43 +299,25 @@ export function useWidgetActions({
 
   return {
     widgets,
+    engine,
     addWidget,
-    // Add a helper to add widgets coming from an external source (cross-grid transfer)
-    addWidgetFromExternal: (widget: WidgetState, preserveId: boolean = true) => {
-      const incoming = { ...widget };
-      // Ensure id uniqueness if requested
-      let finalId = incoming.id;
-      if (!preserveId || widgets.some(w => w.id === incoming.id)) {
-        const timestamp = Date.now();
-        finalId = `${incoming.id}-${timestamp}`;
-      }
-
-      const boundedWidget: WidgetState = {
-        ...incoming,
-        id: finalId,
-        x: Math.max(0, Math.min(cols - (incoming.width || 1), incoming.x)),
-        y: Math.max(0, Math.min(rows - (incoming.height || 1), incoming.y)),
-        width: Math.max(1, Math.min(incoming.width || 1, cols)),
-        height: Math.max(1, Math.min(incoming.height || 1, rows))
-      };
-
-      let updatedWidgets = [...widgets, boundedWidget];
-      if (preventOverlap) {
-        try {
-          updatedWidgets = reflowWidgets(updatedWidgets, cols, rows, true, boundedWidget.id);
-        } catch (error) {
-          // If reflow fails, fallback to pushing without reflow
-        }
-      }
-
-      setWidgets(updatedWidgets);
-      onWidgetAdd?.(boundedWidget);
-      onWidgetsChange?.(updatedWidgets);
-      return boundedWidget;
-    },
+    placeWidget,
+    findPlacement,
+    addWidgetFromExternal,
+    releaseWidget,
     moveWidget,
+    moveWidgets,
     resizeWidget,
     deleteWidget,
-    setInitialWidgets
+    deleteWidgets,
+    duplicateWidgets,
+    replaceWidgets,
+    compact,
+    setInitialWidgets,
+    undo,
+    redo,
+    canUndo: history.canUndo,
+    canRedo: history.canRedo,
+    clearHistory: history.clear
   };
 }
@@ -0,0 +1,32 @@
+// GridTech palette drag source hook
+import { useDraggable } from '@dnd-kit/core';
+import type { AvailableWidget } from '../types';
+
+export interface UseWidgetPaletteItemProps {
+  widget: AvailableWidget;
+  /** dnd-kit draggable id; defaults to one derived from the widget type */
+  id?: string;
+  disabled?: boolean;
+}
+
+/**
+ * Makes an element a drag source that adds a new widget of `widget.type` when
+ * dropped on a grid. Must be rendered inside a WidgetGridGroup.
+ */
+export function useWidgetPaletteItem({ widget, id, disabled = false }: UseWidgetPaletteItemProps) {
+  const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({
+    id: id ?? `palette::${widget.type}`,
+    data: { source: 'palette', widget },
+    disabled
+  });
+
+  return {
+    setNodeRef,
+    attributes,
+    listeners,
+    isDragging,
+    style: transform
+      ? { transform: `translate3d(${transform.x}px, ${transform.y}px, 0)` }
+      : undefined
+  };
+}
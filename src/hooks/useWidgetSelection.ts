@@ -0,0 +1,58 @@
+// GridTech widget selection hook
+import { useState, useCallback, useEffect, useRef } from 'react';
+import type { WidgetState } from '../types';
+
+export interface UseWidgetSelectionProps {
+  widgets: WidgetState[];
+  onSelectionChange?: (selectedIds: string[]) => void;
+}
+
+const sameIds = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((id, index) => id === b[index]);
+
+export function useWidgetSelection({ widgets, onSelectionChange }: UseWidgetSelectionProps) {
+  const [selectedIds, setSelected] = useState<string[]>([]);
+  // Latest selection, so gesture handlers holding an old setter compare against current state
+  const current = useRef<string[]>([]);
+
+  const setSelectedIds = useCallback((ids: string[]) => {
+    const unique = Array.from(new Set(ids));
+    if (sameIds(unique, current.current)) return;
+    current.current = unique;
+    setSelected(unique);
+    onSelectionChange?.(unique);
+  }, [onSelectionChange]);
+
+  // Additive selection (Shift/Ctrl/Cmd-click) toggles the widget instead of replacing the selection
+  // Reads the latest selection, so widgets holding it are not re-rendered when the selection changes
+  const selectWidget = useCallback((id: string, additive: boolean = false) => {
+    const selection = current.current;
+    if (!additive) {
+      setSelectedIds([id]);
+    } else if (selection.includes(id)) {
+      setSelectedIds(selection.filter(selectedId => selectedId !== id));
+    } else {
+      setSelectedIds([...selection, id]);
+    }
+  }, [setSelectedIds]);
+
+  const clearSelection = useCallback(() => setSelectedIds([]), [setSelectedIds]);
+
+  const isSelected = useCallback((id: string) => selectedIds.includes(id), [selectedIds]);
+
+  // Drop ids of widgets that were removed from the layout
+  useEffect(() => {
+    const remaining = selectedIds.filter(id => widgets.some(w => w.id === id));
+    if (remaining.length !== selectedIds.length) {
+      setSelectedIds(remaining);
+    }
+  }, [widgets, selectedIds, setSelectedIds]);
+
+  return {
+    selectedIds,
+    setSelectedIds,
+    selectWidget,
+    clearSelection,
+    isSelected
+  };
+}
@@ -4,24 +4,68 @@ import './styles.css';
 export { WidgetGrid } from './WidgetGrid';
 export type { WidgetGridRef, GridConfig } from './WidgetGrid';
 export { DraggableItem } from './DraggableItem/DraggableItem';
+export { WidgetGridGroup, useWidgetGridGroup } from './WidgetGridGroup/WidgetGridGroup';
+export type { WidgetGridGroupProps } from './WidgetGridGroup/WidgetGridGroup';
+export { WidgetPaletteItem } from './WidgetPalette/WidgetPaletteItem';
+export type { WidgetPaletteItemProps } from './WidgetPalette/WidgetPaletteItem';
+export { LayoutEngine } from './engine/LayoutEngine';
+export type { LayoutEngineOptions, LayoutChangeListener } from './engine/LayoutEngine';
 
 // Export types
 export type { 
   WidgetState, 
+  ResizeHandle,
   PreviewState,
   GroupFilter,
   InteractionModes,
   AvailableWidget,
-  WidgetPlacementState
+  WidgetPlacementState,
+  CompactType,
+  CollisionStrategy,
+  Breakpoint,
+  Breakpoints,
+  BreakpointLayouts,
+  LayoutGridConfig,
+  SerializedLayout,
+  LayoutIssueCode,
+  LayoutValidationIssue,
+  LayoutImportResult,
+  WidgetTransfer,
+  LayoutActionType,
+  LayoutAction,
+  LayoutOperation,
+  BeforeLayoutChange,
+  GridErrorCode,
+  GridError,
+  GridResult,
+  WidgetEditAction,
+  CanEditWidget,
+  WidgetTypeDefinition,
+  WidgetTypeRegistry
 } from './types';
 
 // Export hooks for advanced usage
 export { useWidgetActions } from './hooks/useWidgetActions';
 export { useDragHandling } from './hooks/useDragHandling';
 export { useResponsiveGrid } from './hooks/useResponsiveGrid';
+export { useLayoutHistory } from './hooks/useLayoutHistory';
+export { useBreakpointLayouts } from './hooks/useBreakpointLayouts';
+export { useWidgetSelection } from './hooks/useWidgetSelection';
+export { useWidgetPaletteItem } from './hooks/useWidgetPaletteItem';
+export { useVisibleCells } from './hooks/useVisibleCells';
+export { useEdgeAutoScroll } from './hooks/useEdgeAutoScroll';
 
 // Export utilities
 export * from './utils/gridUtils';
+export * from './utils/gridErrors';
 export * from './utils/grid/gridCollision';
 export * from './utils/grid/gridMath';
 export * from './utils/grid/gridPlacement';
+export * from './utils/grid/gridOccupancy';
+export * from './utils/grid/gridViewport';
+export * from './utils/grid/gridCompaction';
+export * from './utils/grid/gridPush';
+export * from './utils/grid/gridPermissions';
+export * from './utils/grid/gridBreakpoints';
+export * from './utils/layoutSerialization';
+export * from './utils/widgetTypes';
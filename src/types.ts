@@ -1,5 +1,16 @@
+import type { ComponentType } from 'react';
+
 export type GridPosition = [number, number];
 
+/** Direction widgets float toward after each layout change */
+export type CompactType = 'vertical' | 'horizontal' | 'none';
+
+/** How widgets displaced by a move or resize are resolved */
+export type CollisionStrategy = 'relocate' | 'push';
+
+/** Compass position of a resize handle on a widget */
+export type ResizeHandle = 'n' | 's' | 'e' | 'w' | 'ne' | 'nw' | 'se' | 'sw';
+
 export interface Widget {
   id: string;
   w?: number;
@@ -11,6 +22,10 @@ export interface WidgetSizeLimits {
   minH?: number;
   maxW?: number;
   maxH?: number;
+  /** Width / height in cells that resizing keeps, as closely as whole cells allow */
+  aspectRatio?: number;
+  /** Sizes snap to multiples of these cell counts, e.g. { w: 2 } for even widths */
+  sizeStep?: { w?: number; h?: number };
 }
 
 export interface WidgetState extends WidgetSizeLimits {
@@ -22,8 +37,22 @@ export interface WidgetState extends WidgetSizeLimits {
   type: string;
   props?: Record<string, any>;
   groupId?: string;
+  /** Resize handles for this widget; overrides the grid-wide setting */
+  resizeHandles?: ResizeHandle[];
+  /** Pinned in place: cannot be dragged, resized or deleted, and other widgets are routed around it */
+  static?: boolean;
+  /** Per-widget permissions; each overrides the matching grid-wide interaction mode */
+  isDraggable?: boolean;
+  isResizable?: boolean;
+  isDeletable?: boolean;
 }
 
+/** User edit checked against per-widget permissions */
+export type WidgetEditAction = 'move' | 'resize' | 'delete';
+
+/** Return false to forbid an edit the widget's flags would otherwise allow */
+export type CanEditWidget = (widget: WidgetState, action: WidgetEditAction) => boolean;
+
 export interface PreviewState {
   id: string;
   x: number;
@@ -38,12 +67,20 @@ export interface PreviewState {
     width: number;
     height: number;
   }[];
+  /** Target rectangles of the other selected widgets during a group drag */
+  groupPreviews?: {
+    id: string;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+  }[];
 }
 
 export interface WidgetProps extends WidgetSizeLimits {
   id: string;
   onDragEnd: (id: string, x: number, y: number) => void;
-  onResize: (id: string, width: number, height: number) => void;
+  onResize: (id: string, width: number, height: number, x?: number, y?: number) => void;
   x: number;
   y: number;
   width: number;
@@ -52,6 +89,86 @@ export interface WidgetProps extends WidgetSizeLimits {
   previewState?: PreviewState;
 }
 
+/**
+ * Why a grid operation failed. VETOED means onBeforeChange rejected the change
+ * and is only returned, never passed to onError.
+ */
+export type GridErrorCode =
+  | 'NO_SPACE'
+  | 'OUT_OF_BOUNDS'
+  | 'COLLISION'
+  | 'CONSTRAINT_VIOLATION'
+  | 'NOT_FOUND'
+  | 'LOCKED'
+  | 'NOT_PERMITTED'
+  | 'VETOED';
+
+export interface GridError {
+  code: GridErrorCode;
+  message: string;
+  widgetId?: string;
+}
+
+/** Outcome of a grid operation */
+export type GridResult<T = void> =
+  | { ok: true; value: T }
+  | { ok: false; error: GridError };
+
+/** Kind of layout change; 'replace' covers clear, import and keyboard Escape */
+export type LayoutActionType =
+  | 'add'
+  | 'move'
+  | 'resize'
+  | 'delete'
+  | 'transfer'
+  | 'replace'
+  | 'compact'
+  | 'undo'
+  | 'redo';
+
+/** A single layout change with the layout before and after it */
+export interface LayoutAction {
+  type: LayoutActionType;
+  /** Widgets the change was made to; empty for whole-layout changes */
+  widgetIds: string[];
+  before: WidgetState[];
+  after: WidgetState[];
+}
+
+/** A change requested from a LayoutEngine; planning it yields a LayoutAction */
+export type LayoutOperation =
+  | { type: 'add'; widgetType?: string; props?: Record<string, any>; size?: { w: number; h: number } }
+  /** Adds a widget at its own position; `relocate` moves it into bounds and to a free slot instead of failing */
+  | { type: 'place'; widget: WidgetState; relocate?: boolean }
+  | { type: 'move'; id: string; x: number; y: number }
+  /** Moves several widgets by the same delta as one block */
+  | { type: 'moveGroup'; ids: string[]; dx: number; dy: number }
+  | { type: 'resize'; id: string; width: number; height: number; x?: number; y?: number }
+  /** Widgets that may not be deleted are kept */
+  | { type: 'delete'; ids: string[] }
+  | { type: 'duplicate'; ids: string[] }
+  /** A widget arriving from another grid */
+  | { type: 'receive'; widget: WidgetState; preserveId?: boolean }
+  /** A widget leaving for another grid */
+  | { type: 'release'; id: string }
+  | { type: 'replace'; widgets: WidgetState[] }
+  /** Defaults to the engine's compactType */
+  | { type: 'compact'; compactType?: CompactType };
+
+/**
+ * Return false to veto a change, or a layout to apply instead of `action.after`.
+ * Undo and redo are reported but cannot be vetoed.
+ */
+export type BeforeLayoutChange = (action: LayoutAction) => boolean | WidgetState[] | void;
+
+/** A widget dragged from one grid of a WidgetGridGroup into another */
+export interface WidgetTransfer {
+  /** The widget as inserted into the target grid (its id may have been made unique) */
+  widget: WidgetState;
+  fromGridId: string;
+  toGridId: string;
+}
+
 // Widget Groups and Filters
 export interface GroupFilter {
   groupId: string;
@@ -66,8 +183,23 @@ export interface AvailableWidget {
   defaultSize?: { w: number; h: number };
   minSize?: { w: number; h: number };
   maxSize?: { w: number; h: number };
+  /** Copied onto widgets created from this entry */
+  aspectRatio?: number;
+  sizeStep?: { w?: number; h?: number };
+}
+
+/** Everything a grid knows about one widget type */
+export interface WidgetTypeDefinition extends WidgetSizeLimits {
+  type: string;
+  /** Size of new widgets of this type */
+  defaultSize?: { w: number; h: number };
+  /** Merged under the props of new widgets of this type */
+  defaultProps?: Record<string, any>;
+  renderer?: ComponentType<any>;
 }
 
+export type WidgetTypeRegistry = { [type: string]: WidgetTypeDefinition };
+
 // Grid Interaction Modes
 export interface InteractionModes {
   editable?: boolean;    // Enable move/delete
@@ -84,3 +216,53 @@ export interface WidgetPlacementState {
   currentW: number;
   currentH: number;
 }
+
+// Responsive Breakpoints
+export interface Breakpoint {
+  /** Smallest container width (px) this breakpoint applies to */
+  minWidth: number;
+  cols: number;
+}
+
+export type Breakpoints = { [name: string]: Breakpoint };
+
+export type BreakpointLayouts = { [name: string]: WidgetState[] };
+
+// Layout Serialization
+export interface LayoutGridConfig {
+  cols: number;
+  /** Minimum height when autoRows is set */
+  rows: number;
+  preventOverlap: boolean;
+  /** The grid grows to fit its widgets, so rows does not bound them */
+  autoRows?: boolean;
+}
+
+export interface SerializedLayout {
+  version: number;
+  grid: LayoutGridConfig;
+  widgets: WidgetState[];
+  groupFilters: GroupFilter[];
+}
+
+export type LayoutIssueCode =
+  | 'INVALID_DOCUMENT'
+  | 'UNSUPPORTED_VERSION'
+  | 'MIGRATION_FAILED'
+  | 'INVALID_WIDGET'
+  | 'DUPLICATE_ID'
+  | 'OUT_OF_BOUNDS'
+  | 'OVERLAP'
+  | 'SIZE_CONSTRAINT';
+
+export interface LayoutValidationIssue {
+  code: LayoutIssueCode;
+  message: string;
+  widgetId?: string;
+}
+
+export interface LayoutImportResult {
+  isValid: boolean;
+  layout: SerializedLayout | null;
+  issues: LayoutValidationIssue[];
+}
@@ -0,0 +1,97 @@
+// Grid breakpoint helpers
+import type { WidgetState, Breakpoints, BreakpointLayouts } from '../../types';
+import { checkCollision } from './gridCollision';
+import { getNextAvailablePosition } from './gridPlacement';
+
+/** Breakpoint names ordered from the widest to the narrowest */
+export function sortBreakpoints(breakpoints: Breakpoints): string[] {
+  return Object.keys(breakpoints).sort(
+    (a, b) => breakpoints[b].minWidth - breakpoints[a].minWidth
+  );
+}
+
+export function getBreakpointFromWidth(breakpoints: Breakpoints, width: number): string {
+  const sorted = sortBreakpoints(breakpoints);
+  return sorted.find(name => width >= breakpoints[name].minWidth) ?? sorted[sorted.length - 1];
+}
+
+/**
+ * Scales a layout to a different column count. Widgets keep their reading
+ * order; with preventOverlap, rounding collisions are resolved by moving
+ * widgets down.
+ */
+export function scaleLayout(
+  widgets: WidgetState[],
+  fromCols: number,
+  toCols: number,
+  gridRows: number,
+  preventOverlap: boolean = true
+): WidgetState[] {
+  const ratio = toCols / fromCols;
+  const ordered = [...widgets].sort((a, b) => (a.y - b.y) || (a.x - b.x));
+  const placed: WidgetState[] = [];
+
+  for (const widget of ordered) {
+    const width = Math.max(1, Math.min(toCols, Math.round(widget.width * ratio)));
+    let candidate: WidgetState = {
+      ...widget,
+      width,
+      x: Math.max(0, Math.min(toCols - width, Math.round(widget.x * ratio)))
+    };
+
+    if (preventOverlap) {
+      while (
+        placed.some(other => checkCollision(candidate, other)) &&
+        candidate.y + candidate.height < gridRows
+      ) {
+        candidate = { ...candidate, y: candidate.y + 1 };
+      }
+      if (placed.some(other => checkCollision(candidate, other))) {
+        const free = getNextAvailablePosition(placed, toCols, gridRows, candidate.width, candidate.height);
+        if (free) candidate = { ...candidate, ...free };
+      }
+    }
+
+    placed.push(candidate);
+  }
+
+  const byId = new Map(placed.map(w => [w.id, w]));
+  return widgets.map(w => byId.get(w.id) ?? w);
+}
+
+/**
+ * Returns the stored layout for a breakpoint, or derives one from the nearest
+ * larger breakpoint that has a layout (falling back to the nearest smaller one).
+ */
+export function resolveBreakpointLayout(
+  layouts: BreakpointLayouts,
+  breakpoints: Breakpoints,
+  breakpoint: string,
+  gridRows: number,
+  preventOverlap: boolean = true
+): { layout: WidgetState[]; derived: boolean } {
+  if (layouts[breakpoint]) {
+    return { layout: layouts[breakpoint], derived: false };
+  }
+
+  const sorted = sortBreakpoints(breakpoints);
+  const index = sorted.indexOf(breakpoint);
+  const larger = sorted.slice(0, index).reverse();
+  const smaller = sorted.slice(index + 1);
+  const source = [...larger, ...smaller].find(name => layouts[name]);
+
+  if (!source) {
+    return { layout: [], derived: true };
+  }
+
+  return {
+    layout: scaleLayout(
+      layouts[source],
+      breakpoints[source].cols,
+      breakpoints[breakpoint].cols,
+      gridRows,
+      preventOverlap
+    ),
+    derived: true
+  };
+}
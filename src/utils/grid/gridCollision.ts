@@ -12,6 +12,14 @@ export const checkCollision = (
   );
 };
 
+/** Static widgets, and widgets in a locked group, never move during reflow, push or compaction */
+export const isStaticWidget = (
+  widget: { static?: boolean; groupId?: string },
+  lockedGroups?: readonly string[]
+): boolean =>
+  widget.static === true ||
+  (widget.groupId !== undefined && lockedGroups !== undefined && lockedGroups.includes(widget.groupId));
+
 export function hasCollision(
   widgets: Array<{ x: number; y: number; width: number; height: number }>,
   testWidget: { x: number; y: number; width: number; height: number }
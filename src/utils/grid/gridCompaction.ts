@@ -0,0 +1,59 @@
+// Grid compaction ("gravity") helpers
+import type { CompactType } from '../../types';
+import { isStaticWidget } from './gridCollision';
+import { OccupancyIndex } from './gridOccupancy';
+
+type CompactableWidget = {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  static?: boolean;
+  groupId?: string;
+};
+
+// Static widgets stay where they are and the others float around them
+export function compactWidgets<T extends CompactableWidget>(
+  widgets: T[],
+  compactType: CompactType,
+  gridCols: number,
+  gridRows: number,
+  lockedGroups?: readonly string[]
+): T[] {
+  if (compactType === 'none') return widgets;
+
+  const vertical = compactType === 'vertical';
+
+  // Process in reading order along the compaction axis so relative order is preserved
+  const ordered = [...widgets].sort((a, b) => vertical
+    ? (a.y - b.y) || (a.x - b.x)
+    : (a.x - b.x) || (a.y - b.y)
+  );
+
+  // Cells taken so far; each step is checked against its cells instead of every placed widget
+  const placed = new OccupancyIndex(gridCols, widgets.filter(w => isStaticWidget(w, lockedGroups)));
+  const compacted = new Map<string, T>();
+
+  for (const widget of ordered) {
+    if (isStaticWidget(widget, lockedGroups)) continue;
+    let candidate = {
+      ...widget,
+      x: Math.max(0, Math.min(widget.x, gridCols - widget.width)),
+      y: Math.max(0, Math.min(widget.y, gridRows - widget.height))
+    };
+
+    while (vertical ? candidate.y > 0 : candidate.x > 0) {
+      const next = vertical
+        ? { ...candidate, y: candidate.y - 1 }
+        : { ...candidate, x: candidate.x - 1 };
+      if (!placed.isAreaFree(next)) break;
+      candidate = next;
+    }
+
+    placed.add(candidate);
+    compacted.set(widget.id, candidate);
+  }
+
+  return widgets.map(widget => compacted.get(widget.id) ?? widget);
+}
@@ -1,4 +1,5 @@
 // Grid math and scaling helpers
+import type { ResizeHandle, WidgetSizeLimits } from '../../types';
 
 export function getCellSize(
   containerWidth: number,
@@ -25,3 +26,108 @@ export function clampGridPosition(
     y: Math.max(0, Math.min(y, gridRows - widgetHeight)),
   };
 }
+
+// Nearest multiple of step within min/max; limits that leave no multiple fall back to a plain clamp
+const snapToStep = (value: number, step: number, min: number, max: number) => {
+  const lowest = Math.ceil(min / step) * step;
+  const highest = Math.floor(max / step) * step;
+  if (lowest > highest) return Math.max(min, Math.min(max, value));
+  return Math.max(lowest, Math.min(highest, Math.round(value / step) * step));
+};
+
+/**
+ * Fits a size to min/max, sizeStep and aspectRatio. With an aspect ratio the
+ * `prefer`red dimension drives the other one, unless limits clamp the derived one.
+ */
+export function clampWidgetSize(
+  width: number,
+  height: number,
+  limits: WidgetSizeLimits,
+  prefer: 'width' | 'height' = 'width'
+): { width: number; height: number } {
+  const fitW = (w: number) =>
+    snapToStep(w, limits.sizeStep?.w ?? 1, limits.minW ?? 1, limits.maxW ?? Infinity);
+  const fitH = (h: number) =>
+    snapToStep(h, limits.sizeStep?.h ?? 1, limits.minH ?? 1, limits.maxH ?? Infinity);
+
+  const ratio = limits.aspectRatio;
+  if (!ratio || ratio <= 0) {
+    return { width: fitW(width), height: fitH(height) };
+  }
+
+  if (prefer === 'width') {
+    const w = fitW(width);
+    const h = fitH(Math.round(w / ratio));
+    return { width: h === Math.round(w / ratio) ? w : fitW(Math.round(h * ratio)), height: h };
+  }
+  const h = fitH(height);
+  const w = fitW(Math.round(h * ratio));
+  return { width: w, height: w === Math.round(h * ratio) ? h : fitH(Math.round(w / ratio)) };
+}
+
+/** Whether a size already satisfies the limits, driven by either dimension */
+export function isWidgetSizeValid(width: number, height: number, limits: WidgetSizeLimits): boolean {
+  return (['width', 'height'] as const).some(prefer => {
+    const fitted = clampWidgetSize(width, height, limits, prefer);
+    return fitted.width === width && fitted.height === height;
+  });
+}
+
+/**
+ * Applies a resize drag of `deltaCols`/`deltaRows` from a handle. Edges
+ * opposite the handle stay anchored, so north/west handles move x/y as well.
+ */
+export function resizeFromHandle(
+  rect: { x: number; y: number; width: number; height: number },
+  handle: ResizeHandle,
+  deltaCols: number,
+  deltaRows: number,
+  limits: WidgetSizeLimits,
+  gridCols: number,
+  gridRows: number
+): { x: number; y: number; width: number; height: number } {
+  const west = handle.includes('w');
+  const east = handle.includes('e');
+  const north = handle.includes('n');
+  const south = handle.includes('s');
+  const right = rect.x + rect.width;
+  const bottom = rect.y + rect.height;
+
+  const requestedW = east ? rect.width + deltaCols : west ? rect.width - deltaCols : rect.width;
+  const requestedH = south ? rect.height + deltaRows : north ? rect.height - deltaRows : rect.height;
+
+  // The anchored edge limits how far the moving edge can go before leaving the grid;
+  // with an aspect ratio the edge dragged furthest decides the size
+  const widthLeads = (east || west) && (!(north || south) || Math.abs(deltaCols) >= Math.abs(deltaRows));
+  const { width, height } = clampWidgetSize(requestedW, requestedH, {
+    ...limits,
+    maxW: Math.min(limits.maxW ?? Infinity, west ? right : gridCols - rect.x),
+    maxH: Math.min(limits.maxH ?? Infinity, north ? bottom : gridRows - rect.y),
+  }, widthLeads ? 'width' : 'height');
+
+  return {
+    x: west ? right - width : rect.x,
+    y: north ? bottom - height : rect.y,
+    width,
+    height,
+  };
+}
+
+/** Limits a move delta so every widget in a group stays inside the grid */
+export function clampGroupDelta(
+  widgets: { x: number; y: number; width: number; height: number }[],
+  dx: number,
+  dy: number,
+  gridCols: number,
+  gridRows: number
+): { dx: number; dy: number } {
+  if (widgets.length === 0) return { dx: 0, dy: 0 };
+  const left = Math.min(...widgets.map(w => w.x));
+  const top = Math.min(...widgets.map(w => w.y));
+  const right = Math.max(...widgets.map(w => w.x + w.width));
+  const bottom = Math.max(...widgets.map(w => w.y + w.height));
+  return {
+    dx: Math.max(-left, Math.min(gridCols - right, dx)),
+    dy: Math.max(-top, Math.min(gridRows - bottom, dy))
+  };
+}
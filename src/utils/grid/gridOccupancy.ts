@@ -0,0 +1,159 @@
+// Grid occupancy index helpers
+
+type OccupancyRect = { id: string; x: number; y: number; width: number; height: number };
+
+/**
+ * Cell occupancy map for collision checks and free-space search in O(area)
+ * instead of O(widgets). Rows are unbounded, so it also serves autoRows grids.
+ * Widgets may overlap; a cell is free only when no widget covers it.
+ */
+export class OccupancyIndex {
+  readonly cols: number;
+  private readonly cells = new Map<number, string[]>();
+  private readonly rects = new Map<string, OccupancyRect>();
+
+  constructor(cols: number, widgets: OccupancyRect[] = []) {
+    this.cols = cols;
+    widgets.forEach(widget => this.add(widget));
+  }
+
+  get size(): number {
+    return this.rects.size;
+  }
+
+  has(id: string): boolean {
+    return this.rects.has(id);
+  }
+
+  add(widget: OccupancyRect) {
+    if (this.rects.has(widget.id)) this.remove(widget.id);
+    const rect = { id: widget.id, x: widget.x, y: widget.y, width: widget.width, height: widget.height };
+    this.rects.set(rect.id, rect);
+    this.forEachCell(rect, key => {
+      const ids = this.cells.get(key);
+      if (ids) ids.push(rect.id);
+      else this.cells.set(key, [rect.id]);
+    });
+  }
+
+  remove(id: string) {
+    const rect = this.rects.get(id);
+    if (!rect) return;
+    this.rects.delete(id);
+    this.forEachCell(rect, key => {
+      const ids = this.cells.get(key)!.filter(other => other !== id);
+      if (ids.length > 0) this.cells.set(key, ids);
+      else this.cells.delete(key);
+    });
+  }
+
+  /**
+   * Brings the index in line with a new layout, touching only widgets whose
+   * rect changed, so it can be kept across moves and resizes.
+   */
+  sync(widgets: OccupancyRect[]) {
+    for (const widget of widgets) {
+      const rect = this.rects.get(widget.id);
+      if (
+        !rect ||
+        rect.x !== widget.x ||
+        rect.y !== widget.y ||
+        rect.width !== widget.width ||
+        rect.height !== widget.height
+      ) {
+        this.add(widget);
+      }
+    }
+    // Every widget is indexed now, so extra entries belong to removed widgets
+    if (this.rects.size > widgets.length) {
+      const current = new Set(widgets.map(widget => widget.id));
+      for (const id of [...this.rects.keys()]) {
+        if (!current.has(id)) this.remove(id);
+      }
+    }
+  }
+
+  /** Ids of the widgets covering a cell */
+  getWidgetsAt(x: number, y: number): readonly string[] {
+    if (x < 0 || x >= this.cols) return [];
+    return this.cells.get(this.key(x, y)) ?? [];
+  }
+
+  isCellFree(x: number, y: number): boolean {
+    return this.getWidgetsAt(x, y).length === 0;
+  }
+
+  /** Whether an area is free of widgets other than `ignoreIds` */
+  isAreaFree(
+    area: { x: number; y: number; width: number; height: number },
+    ignoreIds: readonly string[] = []
+  ): boolean {
+    return this.getColliding(area, ignoreIds).length === 0;
+  }
+
+  /** Ids of the widgets overlapping an area, other than `ignoreIds` */
+  getColliding(
+    area: { x: number; y: number; width: number; height: number },
+    ignoreIds: readonly string[] = []
+  ): string[] {
+    const found = new Set<string>();
+    this.forEachCell(area, key => {
+      this.cells.get(key)?.forEach(id => {
+        if (!ignoreIds.includes(id)) found.add(id);
+      });
+    });
+    return [...found];
+  }
+
+  /** Lowest occupied row + 1; every row from here down is free */
+  getBottom(): number {
+    let bottom = 0;
+    this.rects.forEach(rect => {
+      bottom = Math.max(bottom, rect.y + rect.height);
+    });
+    return bottom;
+  }
+
+  /**
+   * First free slot in reading order, as getNextAvailablePosition. Occupied
+   * columns are skipped past instead of retried one cell at a time.
+   */
+  findFreePosition(width: number, height: number, rows: number): { x: number; y: number } | null {
+    if (width > this.cols) return null;
+    // Every row below the lowest widget is free, which also bounds the scan for unbounded grids
+    const lastRow = Math.min(rows - height, this.getBottom());
+    for (let y = 0; y <= lastRow; y++) {
+      let x = 0;
+      while (x <= this.cols - width) {
+        const blocked = this.getRightmostOccupiedColumn(x, y, width, height);
+        if (blocked < 0) return { x, y };
+        x = blocked + 1;
+      }
+    }
+    return null;
+  }
+
+  private getRightmostOccupiedColumn(x: number, y: number, width: number, height: number) {
+    for (let cx = x + width - 1; cx >= x; cx--) {
+      for (let cy = y; cy < y + height; cy++) {
+        if (this.cells.has(this.key(cx, cy))) return cx;
+      }
+    }
+    return -1;
+  }
+
+  private key(x: number, y: number) {
+    return y * this.cols + x;
+  }
+
+  // Cells outside the columns are never stored; their keys would wrap into the next row
+  private forEachCell(area: { x: number; y: number; width: number; height: number }, visit: (key: number) => void) {
+    const left = Math.max(0, area.x);
+    const right = Math.min(this.cols, area.x + area.width);
+    for (let cy = area.y; cy < area.y + area.height; cy++) {
+      for (let cx = left; cx < right; cx++) {
+        visit(this.key(cx, cy));
+      }
+    }
+  }
+}
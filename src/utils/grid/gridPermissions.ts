@@ -0,0 +1,25 @@
+// Grid per-widget permission helpers
+import type { WidgetState, WidgetEditAction, CanEditWidget } from '../../types';
+import { isStaticWidget } from './gridCollision';
+
+const WIDGET_FLAGS = {
+  move: 'isDraggable',
+  resize: 'isResizable',
+  delete: 'isDeletable'
+} as const;
+
+/**
+ * Whether `action` may be applied to a widget. Static widgets allow nothing,
+ * the widget's own flag overrides the grid-wide default and canEdit can still
+ * refuse what is otherwise allowed.
+ */
+export function canEditWidget(
+  widget: WidgetState,
+  action: WidgetEditAction,
+  options: { lockedGroups?: readonly string[]; canEdit?: CanEditWidget; gridDefault?: boolean } = {}
+): boolean {
+  const { lockedGroups, canEdit, gridDefault = true } = options;
+  if (isStaticWidget(widget, lockedGroups)) return false;
+  if (!(widget[WIDGET_FLAGS[action]] ?? gridDefault)) return false;
+  return canEdit ? canEdit(widget, action) : true;
+}
@@ -1,4 +1,5 @@
 // Grid placement and mapping helpers
+import { OccupancyIndex } from './gridOccupancy';
 
 export function getNextAvailablePosition(
   widgets: Array<{ x: number; y: number; width: number; height: number }>,
@@ -7,19 +8,8 @@ export function getNextAvailablePosition(
   widgetWidth: number,
   widgetHeight: number
 ): { x: number; y: number } | null {
-  for (let y = 0; y <= gridRows - widgetHeight; y++) {
-    for (let x = 0; x <= gridCols - widgetWidth; x++) {
-      if (!widgets.some(w =>
-        w.x < x + widgetWidth &&
-        w.x + w.width > x &&
-        w.y < y + widgetHeight &&
-        w.y + w.height > y
-      )) {
-        return { x, y };
-      }
-    }
-  }
-  return null;
+  const occupancy = new OccupancyIndex(gridCols, widgets.map((w, index) => ({ ...w, id: String(index) })));
+  return occupancy.findFreePosition(widgetWidth, widgetHeight, gridRows);
 }
 
 export function mapGridToPixels(
@@ -33,3 +23,9 @@ export function mapGridToPixels(
     top: y * cellHeight,
   };
 }
+
+export function getLayoutBottom(
+  widgets: Array<{ y: number; height: number }>
+): number {
+  return widgets.reduce((bottom, w) => Math.max(bottom, w.y + w.height), 0);
+}
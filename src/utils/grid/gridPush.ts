@@ -0,0 +1,75 @@
+// Grid push-based collision helpers
+import { checkCollision, isStaticWidget } from './gridCollision';
+
+type PushableWidget = {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  static?: boolean;
+  groupId?: string;
+};
+
+/**
+ * Shifts widgets colliding with the active widget along the dominant axis of
+ * `direction`, cascading to their own neighbours. Returns null when a widget
+ * would be pushed outside the grid or a static widget is in the way.
+ */
+export function pushWidgets<T extends PushableWidget>(
+  widgets: T[],
+  activeWidgetId: string,
+  direction: { dx: number; dy: number },
+  gridCols: number,
+  gridRows: number,
+  lockedGroups?: readonly string[]
+): T[] | null {
+  const active = widgets.find(w => w.id === activeWidgetId);
+  if (!active) return widgets;
+
+  const vertical = Math.abs(direction.dy) >= Math.abs(direction.dx);
+  const forward = vertical ? direction.dy >= 0 : direction.dx >= 0;
+
+  const positions = new Map<string, T>(widgets.map(w => [w.id, { ...w }]));
+  const activePosition = positions.get(activeWidgetId)!;
+  const queue: T[] = [activePosition];
+
+  const shiftPast = (target: T, blocker: T) => {
+    if (vertical) {
+      target.y = forward ? blocker.y + blocker.height : blocker.y - target.height;
+    } else {
+      target.x = forward ? blocker.x + blocker.width : blocker.x - target.width;
+    }
+  };
+  // Pushes are monotonic along one axis, the cap only guards against bad input
+  let remaining = widgets.length * widgets.length + 1;
+
+  while (queue.length > 0) {
+    if (--remaining < 0) return null;
+    const mover = queue.shift()!;
+
+    for (const other of positions.values()) {
+      if (other.id === mover.id || other.id === activeWidgetId) continue;
+      if (!checkCollision(mover, other)) continue;
+      if (isStaticWidget(other, lockedGroups)) return null;
+
+      shiftPast(other, mover);
+      // A cascaded widget never lands on the widget being moved
+      if (checkCollision(other, activePosition)) {
+        shiftPast(other, activePosition);
+      }
+
+      if (
+        other.x < 0 ||
+        other.y < 0 ||
+        other.x + other.width > gridCols ||
+        other.y + other.height > gridRows
+      ) {
+        return null;
+      }
+      queue.push(other);
+    }
+  }
+
+  return widgets.map(w => positions.get(w.id)!);
+}
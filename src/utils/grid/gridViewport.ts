@@ -0,0 +1,74 @@
+// Grid viewport and scrolling helpers
+
+const SCROLLABLE = /(auto|scroll|overlay)/;
+
+/** Nearest ancestor that scrolls its content, or null when the page itself scrolls */
+export function getScrollParent(element: HTMLElement | null): HTMLElement | null {
+  for (let parent = element?.parentElement; parent; parent = parent.parentElement) {
+    if (parent === document.body || parent === document.documentElement) return null;
+    const { overflowX, overflowY } = getComputedStyle(parent);
+    if (SCROLLABLE.test(overflowY) || SCROLLABLE.test(overflowX)) return parent;
+  }
+  return null;
+}
+
+/** Visible part of the page inside a scroll parent (the window viewport for null) */
+export function getViewportRect(scrollParent: HTMLElement | null): {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+} {
+  const page = { left: 0, top: 0, right: window.innerWidth, bottom: window.innerHeight };
+  if (!scrollParent) return page;
+  const rect = scrollParent.getBoundingClientRect();
+  return {
+    left: Math.max(page.left, rect.left),
+    top: Math.max(page.top, rect.top),
+    right: Math.min(page.right, rect.right),
+    bottom: Math.min(page.bottom, rect.bottom)
+  };
+}
+
+/**
+ * Cells of a grid inside the viewport, widened by `overscan` cells on every
+ * side. The result can be tested against widgets with checkCollision; it has
+ * no area when the grid is scrolled out of view.
+ */
+export function getVisibleCells(
+  gridRect: { left: number; top: number },
+  viewport: { left: number; top: number; right: number; bottom: number },
+  cellWidth: number,
+  cellHeight: number,
+  overscan: number = 0
+): { x: number; y: number; width: number; height: number } {
+  const x = Math.floor((viewport.left - gridRect.left) / cellWidth) - overscan;
+  const y = Math.floor((viewport.top - gridRect.top) / cellHeight) - overscan;
+  const right = Math.ceil((viewport.right - gridRect.left) / cellWidth) + overscan;
+  const bottom = Math.ceil((viewport.bottom - gridRect.top) / cellHeight) + overscan;
+  return { x, y, width: Math.max(0, right - x), height: Math.max(0, bottom - y) };
+}
+
+/**
+ * Auto-scroll step in px for a pointer near the viewport edges: 0 beyond
+ * `threshold` px from an edge, growing to `speed` at the edge itself.
+ */
+export function getEdgeScrollDelta(
+  pointer: { x: number; y: number },
+  viewport: { left: number; top: number; right: number; bottom: number },
+  threshold: number,
+  speed: number
+): { x: number; y: number } {
+  const step = (position: number, start: number, end: number) => {
+    const before = start + threshold - position;
+    const after = position - (end - threshold);
+    const depth = before > 0 ? -before : after > 0 ? after : 0;
+    if (depth === 0 || threshold <= 0) return 0;
+    const amount = speed * Math.min(1, Math.abs(depth) / threshold);
+    return Math.sign(depth) * Math.max(1, Math.round(amount));
+  };
+  return {
+    x: step(pointer.x, viewport.left, viewport.right),
+    y: step(pointer.y, viewport.top, viewport.bottom)
+  };
+}
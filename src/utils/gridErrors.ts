@@ -0,0 +1,26 @@
+import type { GridError, GridErrorCode, GridResult } from '../types';
+
+/** Thrown by layout helpers such as reflowWidgets when a layout cannot be produced */
+export class GridLayoutError extends Error {
+  readonly code: GridErrorCode;
+  readonly widgetId?: string;
+
+  constructor(code: GridErrorCode, message: string, widgetId?: string) {
+    super(message);
+    this.name = 'GridLayoutError';
+    this.code = code;
+    this.widgetId = widgetId;
+  }
+}
+
+/** Converts a caught GridLayoutError into a GridError; anything else is rethrown */
+export function toGridError(error: unknown): GridError {
+  if (error instanceof GridLayoutError) {
+    return { code: error.code, message: error.message, widgetId: error.widgetId };
+  }
+  throw error;
+}
+
+export const gridSuccess = <T>(value: T): GridResult<T> => ({ ok: true, value });
+
+export const gridFailure = <T = never>(error: GridError): GridResult<T> => ({ ok: false, error });
@@ -1,7 +1,10 @@
-import type { WidgetState } from '../types';
-import { checkCollision } from './grid/gridCollision';
+import type { WidgetState, CollisionStrategy } from '../types';
+import { checkCollision, isStaticWidget } from './grid/gridCollision';
 import { clampGridPosition } from './grid/gridMath';
 import { getNextAvailablePosition } from './grid/gridPlacement';
+import { pushWidgets } from './grid/gridPush';
+import { OccupancyIndex } from './grid/gridOccupancy';
+import { GridLayoutError } from './gridErrors';
 
 export function validateWidgetPosition(
   widget: WidgetState,
@@ -44,18 +47,26 @@ export function validateWidgetPosition(
         widget.width,
         widget.height
       );
-      return { isValid: false, suggestedPosition: freeSpace || { x: 0, y: 0 } };
+      // No suggestion when the grid has no room for the widget
+      return { isValid: false, suggestedPosition: freeSpace ?? undefined };
     }
   }
   return { isValid: true };
 }
 
+/**
+ * Keeps static widgets in place, places the active widgets next and moves every
+ * other overlapping widget to the first free slot. Throws a GridLayoutError:
+ * COLLISION when an active widget overlaps a static one, NO_SPACE when a
+ * displaced widget does not fit.
+ */
 export function reflowWidgets(
   widgets: WidgetState[],
   gridCols: number,
   gridRows: number,
   preventOverlap: boolean = false,
-  activeWidgetId?: string
+  activeWidgetId?: string | string[],
+  lockedGroups?: readonly string[]
 ): WidgetState[] {
   if (!preventOverlap) {
     return widgets.map((widget) => ({
@@ -71,71 +82,42 @@ export function reflowWidgets(
     }));
   }
 
-  // Sort widgets to process active widget first, then left-to-right, top-to-bottom
+  // Sort widgets to process static, then active widgets first, then left-to-right, top-to-bottom
+  const activeIds = new Set(([] as string[]).concat(activeWidgetId ?? []));
   const orderedWidgets = [...widgets].sort((a, b) => {
-    if (activeWidgetId) {
-      if (a.id === activeWidgetId) return -1;
-      if (b.id === activeWidgetId) return 1;
-    }
+    const aStatic = isStaticWidget(a, lockedGroups);
+    if (aStatic !== isStaticWidget(b, lockedGroups)) return aStatic ? -1 : 1;
+    const aActive = activeIds.has(a.id);
+    if (aActive !== activeIds.has(b.id)) return aActive ? -1 : 1;
     if (a.y === b.y) return a.x - b.x;
     return a.y - b.y;
   });
 
-  // Use a grid occupancy map for collision detection
-  const gridMap: { [key: string]: string } = {};
+  // Cells of the widgets placed so far
+  const occupancy = new OccupancyIndex(gridCols);
 
-  // Helper to check if a widget can be placed at a position
-  const canPlaceWidget = (widget: WidgetState, x: number, y: number) => {
+  // Find next available position for a widget
+  const findNextPosition = (widget: WidgetState): { x: number; y: number } => {
+    // Static widgets never move; try the original position first for the rest
     if (
-      x < 0 ||
-      y < 0 ||
-      x + widget.width > gridCols ||
-      y + widget.height > gridRows
+      isStaticWidget(widget, lockedGroups) ||
+      (widget.x >= 0 &&
+        widget.y >= 0 &&
+        widget.x + widget.width <= gridCols &&
+        widget.y + widget.height <= gridRows &&
+        occupancy.isAreaFree(widget, [widget.id]))
     ) {
-      return false;
-    }
-    for (let dy = 0; dy < widget.height; dy++) {
-      for (let dx = 0; dx < widget.width; dx++) {
-        const key = `${x + dx},${y + dy}`;
-        if (gridMap[key] && gridMap[key] !== widget.id) {
-          return false;
-        }
-      }
+      return { x: widget.x, y: widget.y };
     }
-    return true;
-  };
-
-  // Helper to mark widget cells as occupied
-  const occupyCells = (widget: WidgetState, x: number, y: number) => {
-    for (let dy = 0; dy < widget.height; dy++) {
-      for (let dx = 0; dx < widget.width; dx++) {
-        gridMap[`${x + dx},${y + dy}`] = widget.id;
-      }
+    if (activeIds.has(widget.id)) {
+      throw new GridLayoutError('COLLISION', `Widget "${widget.id}" overlaps a static widget`, widget.id);
     }
-  };
 
-  // Find next available position for a widget
-  const findNextPosition = (widget: WidgetState): { x: number; y: number } => {
-    // Try original position first
-    if (canPlaceWidget(widget, widget.x, widget.y)) {
-      return { x: widget.x, y: widget.y };
+    const pos = occupancy.findFreePosition(widget.width, widget.height, gridRows);
+    if (!pos) {
+      throw new GridLayoutError('NO_SPACE', `Not enough space to place widget "${widget.id}"`, widget.id);
     }
-    // Use already placed widgets for collision checking
-    const placedWidgets = result.map(w => ({ 
-      x: w.x, 
-      y: w.y, 
-      width: w.width, 
-      height: w.height 
-    }));
-
-    const pos = getNextAvailablePosition(
-      placedWidgets,
-      gridCols,
-      gridRows,
-      widget.width,
-      widget.height
-    );
-    return pos || { x: 0, y: 0 };
+    return pos;
   };
 
   const result: WidgetState[] = [];
@@ -143,7 +125,43 @@ export function reflowWidgets(
     const pos = findNextPosition(widget);
     const finalWidget = { ...widget, ...pos };
     result.push(finalWidget);
-    occupyCells(finalWidget, pos.x, pos.y);
+    occupancy.add(finalWidget);
   }
   return result;
 }
+
+/**
+ * Direction a resize grew in, for push-based collision resolution: positive
+ * when the right/bottom edge moved out, negative when the left/top edge did.
+ */
+export function getResizeDirection(
+  before: { x: number; y: number; width: number; height: number },
+  after: { x: number; y: number; width: number; height: number }
+): { dx: number; dy: number } {
+  return {
+    dx: (after.x + after.width) - (before.x + before.width) + (after.x - before.x),
+    dy: (after.y + after.height) - (before.y + before.height) + (after.y - before.y)
+  };
+}
+
+/**
+ * Resolves overlaps around the active widget. The 'push' strategy shifts
+ * colliding widgets along `direction` and falls back to relocation when they
+ * would leave the grid or hit a static widget. Throws a GridLayoutError when a
+ * widget cannot be placed.
+ */
+export function resolveCollisions(
+  widgets: WidgetState[],
+  gridCols: number,
+  gridRows: number,
+  activeWidgetId: string,
+  strategy: CollisionStrategy = 'relocate',
+  direction?: { dx: number; dy: number },
+  lockedGroups?: readonly string[]
+): WidgetState[] {
+  if (strategy === 'push' && direction) {
+    const pushed = pushWidgets(widgets, activeWidgetId, direction, gridCols, gridRows, lockedGroups);
+    if (pushed) return pushed;
+  }
+  return reflowWidgets(widgets, gridCols, gridRows, true, activeWidgetId, lockedGroups);
+}
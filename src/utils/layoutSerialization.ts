@@ -0,0 +1,211 @@
+import type {
+  WidgetState,
+  GroupFilter,
+  LayoutGridConfig,
+  SerializedLayout,
+  LayoutValidationIssue,
+  LayoutImportResult,
+  WidgetTypeRegistry,
+  WidgetSizeLimits
+} from '../types';
+import { validateWidgetPosition } from './gridUtils';
+import { isWidgetSizeValid } from './grid/gridMath';
+import { getWidgetLimits } from './widgetTypes';
+
+export const LAYOUT_SCHEMA_VERSION = 1;
+
+/** Upgrades a raw document from the version it is keyed by to the next version */
+export type LayoutMigration = (document: Record<string, any>) => Record<string, any>;
+
+export type LayoutMigrations = { [fromVersion: number]: LayoutMigration };
+
+export interface DeserializeLayoutOptions {
+  /** Validate against this grid instead of the one stored in the document */
+  grid?: LayoutGridConfig;
+  migrations?: LayoutMigrations;
+  /** Check widget sizes against the limits of their types */
+  widgetTypes?: WidgetTypeRegistry;
+  /** Limits for widgets whose own and type limits leave them unset, as a grid's defaultSizeLimits */
+  defaultSizeLimits?: WidgetSizeLimits;
+}
+
+export function serializeLayout(
+  widgets: WidgetState[],
+  grid: LayoutGridConfig,
+  groupFilters: GroupFilter[] = []
+): SerializedLayout {
+  return {
+    version: LAYOUT_SCHEMA_VERSION,
+    grid: {
+      cols: grid.cols,
+      rows: grid.rows,
+      preventOverlap: grid.preventOverlap,
+      ...(grid.autoRows ? { autoRows: true } : {})
+    },
+    widgets: widgets.map(widget => ({ ...widget })),
+    groupFilters: groupFilters.map(filter => ({ ...filter }))
+  };
+}
+
+export function validateLayout(
+  widgets: WidgetState[],
+  grid: LayoutGridConfig,
+  widgetTypes?: WidgetTypeRegistry,
+  defaultSizeLimits?: WidgetSizeLimits
+): LayoutValidationIssue[] {
+  const issues: LayoutValidationIssue[] = [];
+  const seen = new Set<string>();
+  const rows = grid.autoRows ? Infinity : grid.rows;
+  const gridSize = grid.autoRows ? `${grid.cols}-column grid` : `${grid.cols}x${grid.rows} grid`;
+
+  widgets.forEach(widget => {
+    if (seen.has(widget.id)) {
+      issues.push({
+        code: 'DUPLICATE_ID',
+        widgetId: widget.id,
+        message: `Duplicate widget id "${widget.id}"`
+      });
+    }
+    seen.add(widget.id);
+
+    if (
+      (widgetTypes || defaultSizeLimits) &&
+      !isWidgetSizeValid(widget.width, widget.height, getWidgetLimits(widget, widgetTypes, defaultSizeLimits))
+    ) {
+      issues.push({
+        code: 'SIZE_CONSTRAINT',
+        widgetId: widget.id,
+        message: `Widget "${widget.id}" is ${widget.width}x${widget.height}, outside the size limits for type "${widget.type}"`
+      });
+    }
+
+    // Bounds first, so overlaps are only reported for widgets that fit the grid
+    const bounds = validateWidgetPosition(widget, widgets, grid.cols, rows, false);
+    if (!bounds.isValid) {
+      issues.push({
+        code: 'OUT_OF_BOUNDS',
+        widgetId: widget.id,
+        message: `Widget "${widget.id}" does not fit inside a ${gridSize}`
+      });
+      return;
+    }
+
+    if (grid.preventOverlap) {
+      const overlap = validateWidgetPosition(widget, widgets, grid.cols, rows, true);
+      if (!overlap.isValid) {
+        issues.push({
+          code: 'OVERLAP',
+          widgetId: widget.id,
+          message: `Widget "${widget.id}" overlaps another widget`
+        });
+      }
+    }
+  });
+
+  return issues;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const getVersion = (value: unknown): number | null =>
+  typeof value === 'number' && Number.isInteger(value) ? value : null;
+
+const isWidgetShape = (value: unknown): value is WidgetState =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  typeof value.type === 'string' &&
+  ['x', 'y', 'width', 'height'].every(key => Number.isFinite(value[key]));
+
+const isGroupFilterShape = (value: unknown): value is { groupId: string; visible?: unknown } =>
+  isRecord(value) && typeof value.groupId === 'string';
+
+const invalid = (issue: LayoutValidationIssue): LayoutImportResult => ({
+  isValid: false,
+  layout: null,
+  issues: [issue]
+});
+
+export function deserializeLayout(
+  input: string | unknown,
+  { grid, migrations = {}, widgetTypes, defaultSizeLimits }: DeserializeLayoutOptions = {}
+): LayoutImportResult {
+  let parsed: unknown = input;
+  if (typeof input === 'string') {
+    try {
+      parsed = JSON.parse(input);
+    } catch (error) {
+      return invalid({ code: 'INVALID_DOCUMENT', message: 'Layout is not valid JSON' });
+    }
+  }
+
+  let version = isRecord(parsed) ? getVersion(parsed.version) : null;
+  if (!isRecord(parsed) || version === null) {
+    return invalid({ code: 'INVALID_DOCUMENT', message: 'Layout document has no version' });
+  }
+
+  if (version > LAYOUT_SCHEMA_VERSION) {
+    return invalid({
+      code: 'UNSUPPORTED_VERSION',
+      message: `Layout version ${version} is newer than supported version ${LAYOUT_SCHEMA_VERSION}`
+    });
+  }
+
+  // Run migrations one version at a time up to the current schema
+  let source: Record<string, unknown> = parsed;
+  while (version < LAYOUT_SCHEMA_VERSION) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      return invalid({
+        code: 'UNSUPPORTED_VERSION',
+        message: `No migration from layout version ${version}`
+      });
+    }
+    let migrated: unknown;
+    try {
+      migrated = migrate(source);
+    } catch (error) {
+      return invalid({
+        code: 'MIGRATION_FAILED',
+        message: `Migration from layout version ${version} failed: ${error instanceof Error ? error.message : String(error)}`
+      });
+    }
+    const next = isRecord(migrated) ? migrated : {};
+    const nextVersion = getVersion(next.version);
+    version = nextVersion !== null && nextVersion > version ? nextVersion : version + 1;
+    source = { ...next, version };
+  }
+
+  const { grid: storedGrid, widgets: storedWidgets, groupFilters } = source;
+  if (!isRecord(storedGrid) || !Array.isArray(storedWidgets)) {
+    return invalid({ code: 'INVALID_DOCUMENT', message: 'Layout document is missing grid or widgets' });
+  }
+
+  const issues: LayoutValidationIssue[] = [];
+  const widgets: WidgetState[] = [];
+  storedWidgets.forEach((widget: unknown, index: number) => {
+    if (isWidgetShape(widget)) {
+      widgets.push(widget);
+    } else {
+      issues.push({ code: 'INVALID_WIDGET', message: `Widget at index ${index} is malformed` });
+    }
+  });
+
+  const layout: SerializedLayout = {
+    version: LAYOUT_SCHEMA_VERSION,
+    grid: {
+      cols: Number(storedGrid.cols),
+      rows: Number(storedGrid.rows),
+      preventOverlap: !!storedGrid.preventOverlap,
+      ...(storedGrid.autoRows ? { autoRows: true } : {})
+    },
+    widgets,
+    groupFilters: Array.isArray(groupFilters)
+      ? groupFilters.filter(isGroupFilterShape).map(f => ({ groupId: f.groupId, visible: f.visible !== false }))
+      : []
+  };
+
+  issues.push(...validateLayout(widgets, grid ?? layout.grid, widgetTypes, defaultSizeLimits));
+
+  return { isValid: issues.length === 0, layout, issues };
+}
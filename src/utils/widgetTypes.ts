@@ -0,0 +1,107 @@
+import type { ComponentType } from 'react';
+import type {
+  AvailableWidget,
+  WidgetState,
+  WidgetSizeLimits,
+  WidgetTypeDefinition,
+  WidgetTypeRegistry
+} from '../types';
+import { clampWidgetSize } from './grid/gridMath';
+
+// Drops undefined fields so merging never erases a value set by an earlier source
+const definedOnly = <T extends object>(value: T): T =>
+  Object.fromEntries(Object.entries(value).filter(([, field]) => field !== undefined)) as T;
+
+/** Converts a hover-to-add or palette entry into a type definition */
+export function toWidgetTypeDefinition(widget: AvailableWidget): WidgetTypeDefinition {
+  return definedOnly({
+    type: widget.type,
+    defaultSize: widget.defaultSize,
+    minW: widget.minSize?.w,
+    minH: widget.minSize?.h,
+    maxW: widget.maxSize?.w,
+    maxH: widget.maxSize?.h,
+    aspectRatio: widget.aspectRatio,
+    sizeStep: widget.sizeStep
+  });
+}
+
+/**
+ * Builds the registry a grid uses for every widget type. Sources are merged
+ * field by field in order: availableWidgets, widgetRenderers, widgetTypes.
+ */
+export function createWidgetRegistry({
+  availableWidgets = [],
+  widgetRenderers = {},
+  widgetTypes = []
+}: {
+  availableWidgets?: AvailableWidget[];
+  widgetRenderers?: { [type: string]: ComponentType<any> };
+  widgetTypes?: WidgetTypeDefinition[];
+}): WidgetTypeRegistry {
+  const registry: WidgetTypeRegistry = {};
+  const merge = (definition: WidgetTypeDefinition) => {
+    registry[definition.type] = { ...registry[definition.type], ...definedOnly(definition) };
+  };
+  availableWidgets.forEach(widget => merge(toWidgetTypeDefinition(widget)));
+  Object.entries(widgetRenderers).forEach(([type, renderer]) => merge({ type, renderer }));
+  widgetTypes.forEach(merge);
+  return registry;
+}
+
+/**
+ * Size limits of a widget: its own fields, falling back to those of its type,
+ * then to `defaults` (a grid's defaultSizeLimits)
+ */
+export function getWidgetLimits(
+  widget: Pick<WidgetState, 'type'> & WidgetSizeLimits,
+  registry?: WidgetTypeRegistry,
+  defaults?: WidgetSizeLimits
+): WidgetSizeLimits {
+  const definition = registry?.[widget.type];
+  const limits = definedOnly({
+    minW: widget.minW ?? definition?.minW,
+    minH: widget.minH ?? definition?.minH,
+    maxW: widget.maxW ?? definition?.maxW,
+    maxH: widget.maxH ?? definition?.maxH,
+    aspectRatio: widget.aspectRatio ?? definition?.aspectRatio,
+    sizeStep: widget.sizeStep ?? definition?.sizeStep
+  });
+  return defaults ? { ...defaults, ...limits } : limits;
+}
+
+/** Default size of a new widget of `type`, fitted to the type's limits */
+export function getDefaultWidgetSize(
+  type: string,
+  registry: WidgetTypeRegistry | undefined,
+  fallback: { w: number; h: number }
+): { width: number; height: number } {
+  const definition = registry?.[type];
+  return clampWidgetSize(
+    definition?.defaultSize?.w ?? fallback.w,
+    definition?.defaultSize?.h ?? fallback.h,
+    getWidgetLimits({ type }, registry)
+  );
+}
+
+/**
+ * Applies a widget's type when it is created: the type's limits and default
+ * props are copied onto the widget and its size is fitted to the limits.
+ * `defaults` (a grid's defaultSizeLimits) only fit the size; they stay the grid's.
+ */
+export function applyWidgetType(
+  widget: WidgetState,
+  registry?: WidgetTypeRegistry,
+  defaults?: WidgetSizeLimits
+): WidgetState {
+  const definition = registry?.[widget.type];
+  if (!definition && !defaults) return widget;
+
+  const props = definition?.defaultProps ? { ...definition.defaultProps, ...widget.props } : widget.props;
+  return {
+    ...widget,
+    ...(definition ? getWidgetLimits(widget, registry) : {}),
+    ...clampWidgetSize(widget.width, widget.height, getWidgetLimits(widget, registry, defaults)),
+    ...(props ? { props } : {})
+  };
+}
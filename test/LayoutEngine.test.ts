@@ -0,0 +1,310 @@
+import { describe, it, expect, vi } from 'vitest';
+import { LayoutEngine } from '../src/engine';
+import type { LayoutEngineOptions } from '../src/engine';
+import type { WidgetState } from '../src/types';
+import { checkCollision } from '../src/utils/grid/gridCollision';
+
+const widget = (id: string, x: number, y: number, width = 2, height = 2, extra: Partial<WidgetState> = {}): WidgetState =>
+  ({ id, type: 'default', x, y, width, height, ...extra });
+
+const createEngine = (widgets: WidgetState[], options: Partial<LayoutEngineOptions> = {}) =>
+  new LayoutEngine({ cols: 8, rows: 6, preventOverlap: true, ...options }, widgets);
+
+const position = (engine: LayoutEngine, id: string) => {
+  const found = engine.getWidgets().find(w => w.id === id);
+  return found && { x: found.x, y: found.y, width: found.width, height: found.height };
+};
+
+const hasOverlap = (widgets: WidgetState[]) =>
+  widgets.some((a, i) => widgets.slice(i + 1).some(b => checkCollision(a, b)));
+
+describe('LayoutEngine', () => {
+  describe('plan, apply and commit', () => {
+    it('plans an operation without changing the layout', () => {
+      const engine = createEngine([widget('a', 0, 0)]);
+      const before = engine.getWidgets();
+
+      const result = engine.plan({ type: 'move', id: 'a', x: 3, y: 1 });
+
+      expect(result.ok).toBe(true);
+      if (!result.ok) return;
+      expect(result.value.type).toBe('move');
+      expect(result.value.widgetIds).toEqual(['a']);
+      expect(result.value.before).toBe(before);
+      expect(result.value.after.find(w => w.id === 'a')).toMatchObject({ x: 3, y: 1 });
+      expect(engine.getWidgets()).toBe(before);
+    });
+
+    it('applies an operation and notifies subscribers', () => {
+      const engine = createEngine([widget('a', 0, 0)]);
+      const listener = vi.fn();
+      engine.subscribe(listener);
+
+      const result = engine.apply({ type: 'resize', id: 'a', width: 3, height: 2 });
+
+      expect(result.ok).toBe(true);
+      expect(position(engine, 'a')).toEqual({ x: 0, y: 0, width: 3, height: 2 });
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(engine.getWidgets(), expect.objectContaining({ type: 'resize' }));
+    });
+
+    it('commits a planned action that was rewritten', () => {
+      const engine = createEngine([widget('a', 0, 0)]);
+      const listener = vi.fn();
+      engine.subscribe(listener);
+      const planned = engine.plan({ type: 'move', id: 'a', x: 2, y: 0 });
+      if (!planned.ok) throw new Error('move was not planned');
+
+      const rewritten = [widget('a', 4, 4)];
+      engine.commit({ ...planned.value, after: rewritten });
+
+      expect(engine.getWidgets()).toBe(rewritten);
+      expect(listener).toHaveBeenCalledWith(rewritten, expect.objectContaining({ type: 'move' }));
+    });
+
+    it('does not notify subscribers of a change that changes nothing', () => {
+      const engine = createEngine([widget('a', 0, 0)]);
+      const listener = vi.fn();
+      engine.subscribe(listener);
+
+      const result = engine.apply({ type: 'compact', compactType: 'none' });
+
+      expect(result.ok).toBe(true);
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('stops notifying after unsubscribe', () => {
+      const engine = createEngine([widget('a', 0, 0)]);
+      const listener = vi.fn();
+      const unsubscribe = engine.subscribe(listener);
+
+      unsubscribe();
+      engine.apply({ type: 'move', id: 'a', x: 1, y: 1 });
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('adds widgets to the first free slot and compacts after a change', () => {
+      const engine = createEngine([widget('a', 4, 2)], { compactType: 'vertical' });
+
+      const result = engine.apply({ type: 'add', widgetType: 'chart', size: { w: 2, h: 2 } });
+
+      expect(result.ok).toBe(true);
+      const added = engine.getWidgets().find(w => w.type === 'chart');
+      expect(added).toMatchObject({ x: 0, y: 0, width: 2, height: 2 });
+      expect(position(engine, 'a')?.y).toBe(0);
+      expect(hasOverlap(engine.getWidgets())).toBe(false);
+    });
+  });
+
+  describe('occupancy', () => {
+    it('keeps its index across commits and layout updates', () => {
+      const engine = createEngine([widget('a', 0, 0), widget('b', 4, 0)]);
+      const index = engine.getOccupancy();
+
+      engine.apply({ type: 'move', id: 'a', x: 0, y: 3 });
+      engine.setWidgets([...engine.getWidgets(), widget('c', 6, 4)]);
+
+      expect(engine.getOccupancy()).toBe(index);
+      expect(index.isCellFree(0, 0)).toBe(true);
+      expect(index.getWidgetsAt(0, 3)).toEqual(['a']);
+      expect(index.getWidgetsAt(6, 4)).toEqual(['c']);
+    });
+  });
+
+  describe('rejections', () => {
+    it('refuses to move, resize or delete a static widget', () => {
+      const engine = createEngine([widget('pinned', 0, 0, 2, 2, { static: true })]);
+
+      const results = [
+        engine.apply({ type: 'move', id: 'pinned', x: 2, y: 0 }),
+        engine.apply({ type: 'resize', id: 'pinned', width: 3, height: 3 }),
+        engine.apply({ type: 'delete', ids: ['pinned'] })
+      ];
+
+      results.forEach(result => {
+        expect(result.ok).toBe(false);
+        if (!result.ok) expect(result.error).toMatchObject({ code: 'LOCKED', widgetId: 'pinned' });
+      });
+      expect(position(engine, 'pinned')).toEqual({ x: 0, y: 0, width: 2, height: 2 });
+    });
+
+    it('treats widgets of locked groups as static', () => {
+      const engine = createEngine([widget('a', 0, 0, 2, 2, { groupId: 'header' })], { lockedGroups: ['header'] });
+
+      const result = engine.apply({ type: 'move', id: 'a', x: 3, y: 0 });
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) expect(result.error.code).toBe('LOCKED');
+    });
+
+    it('honours per-widget flags and canEdit', () => {
+      const canEdit = vi.fn((_widget: WidgetState, action: string) => action !== 'delete');
+      const engine = createEngine([widget('fixed', 0, 0, 2, 2, { isDraggable: false }), widget('b', 4, 0)], { canEdit });
+
+      const move = engine.apply({ type: 'move', id: 'fixed', x: 2, y: 2 });
+      const remove = engine.apply({ type: 'delete', ids: ['b'] });
+
+      expect(move.ok).toBe(false);
+      if (!move.ok) expect(move.error).toMatchObject({ code: 'NOT_PERMITTED', widgetId: 'fixed' });
+      expect(remove.ok).toBe(false);
+      if (!remove.ok) expect(remove.error).toMatchObject({ code: 'NOT_PERMITTED', widgetId: 'b' });
+      expect(canEdit).toHaveBeenCalledWith(expect.objectContaining({ id: 'b' }), 'delete');
+      expect(engine.getWidgets()).toHaveLength(2);
+    });
+
+    it('only releases widgets that may be both moved and deleted', () => {
+      const engine = createEngine([
+        widget('pinned', 0, 0, 2, 2, { static: true }),
+        widget('kept', 2, 0, 2, 2, { isDeletable: false }),
+        widget('free', 4, 0)
+      ]);
+
+      const pinned = engine.apply({ type: 'release', id: 'pinned' });
+      const kept = engine.apply({ type: 'release', id: 'kept' });
+      const free = engine.apply({ type: 'release', id: 'free' });
+
+      expect(!pinned.ok && pinned.error.code).toBe('LOCKED');
+      expect(!kept.ok && kept.error.code).toBe('NOT_PERMITTED');
+      expect(free.ok).toBe(true);
+      expect(engine.getWidgets().map(w => w.id)).toEqual(['pinned', 'kept']);
+    });
+
+    it('reports a COLLISION when placing onto a taken area with preventOverlap', () => {
+      const engine = createEngine([widget('a', 0, 0)]);
+
+      const result = engine.apply({ type: 'place', widget: widget('b', 1, 1) });
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) expect(result.error).toMatchObject({ code: 'COLLISION', widgetId: 'b' });
+      expect(engine.getWidgets()).toHaveLength(1);
+    });
+
+    it('allows the same placement without preventOverlap', () => {
+      const engine = createEngine([widget('a', 0, 0)], { preventOverlap: false });
+
+      const result = engine.apply({ type: 'place', widget: widget('b', 1, 1) });
+
+      expect(result.ok).toBe(true);
+      expect(engine.getWidgets()).toHaveLength(2);
+    });
+
+    it('relocates a placement to a free slot when asked to', () => {
+      const engine = createEngine([widget('a', 0, 0)]);
+
+      const result = engine.apply({ type: 'place', widget: widget('b', 1, 1), relocate: true });
+
+      expect(result.ok).toBe(true);
+      expect(position(engine, 'b')).toEqual({ x: 2, y: 0, width: 2, height: 2 });
+    });
+
+    it('reports moves outside the grid, unknown widgets and broken size limits', () => {
+      const engine = createEngine([widget('a', 0, 0, 2, 2, { maxW: 3 })]);
+
+      const outside = engine.plan({ type: 'move', id: 'a', x: 7, y: 0 });
+      const missing = engine.plan({ type: 'move', id: 'nope', x: 0, y: 0 });
+      const tooWide = engine.plan({ type: 'resize', id: 'a', width: 4, height: 2 });
+
+      expect(!outside.ok && outside.error.code).toBe('OUT_OF_BOUNDS');
+      expect(!missing.ok && missing.error.code).toBe('NOT_FOUND');
+      expect(!tooWide.ok && tooWide.error.code).toBe('CONSTRAINT_VIOLATION');
+    });
+
+    it('applies defaultSizeLimits where the widget and its type set none', () => {
+      const engine = createEngine([widget('a', 0, 0), widget('wide', 0, 2, 2, 2, { maxW: 6 })], {
+        defaultSizeLimits: { minW: 2, minH: 2, maxW: 3, maxH: 3 }
+      });
+
+      const tooWide = engine.plan({ type: 'resize', id: 'a', width: 4, height: 2 });
+      const tooSmall = engine.plan({ type: 'resize', id: 'a', width: 1, height: 2 });
+      const ownLimit = engine.plan({ type: 'resize', id: 'wide', width: 5, height: 2 });
+
+      expect(!tooWide.ok && tooWide.error.code).toBe('CONSTRAINT_VIOLATION');
+      expect(!tooSmall.ok && tooSmall.error.code).toBe('CONSTRAINT_VIOLATION');
+      expect(ownLimit.ok).toBe(true);
+    });
+
+    it('checks size limits against the resize as clamped to the grid', () => {
+      const engine = createEngine([widget('a', 6, 0), widget('b', 5, 3)], {
+        defaultSizeLimits: { maxW: 3, sizeStep: { w: 2 } }
+      });
+
+      const fitsOnceClamped = engine.plan({ type: 'resize', id: 'a', width: 4, height: 2 });
+      const breaksOnceClamped = engine.plan({ type: 'resize', id: 'b', width: 4, height: 2 });
+
+      expect(fitsOnceClamped.ok).toBe(true);
+      expect(!breaksOnceClamped.ok && breaksOnceClamped.error.code).toBe('CONSTRAINT_VIOLATION');
+    });
+
+    it('fits added and received widgets to defaultSizeLimits', () => {
+      const engine = createEngine([], { defaultSizeLimits: { maxW: 3, maxH: 3 } });
+
+      const added = engine.apply({ type: 'add', widgetType: 'default', size: { w: 5, h: 2 } });
+      engine.apply({ type: 'receive', widget: widget('guest', 0, 2, 4, 4) });
+      const addedId = added.ok ? added.value.widgetIds[0] : '';
+
+      expect(position(engine, addedId)).toMatchObject({ width: 3, height: 2 });
+      expect(position(engine, 'guest')).toMatchObject({ width: 3, height: 3 });
+      expect(engine.getWidgets().find(w => w.id === addedId)?.maxW).toBeUndefined();
+    });
+  });
+
+  describe('collision strategies', () => {
+    const row = () => [widget('a', 0, 0), widget('b', 2, 0)];
+
+    it('pushes colliding widgets along the move direction', () => {
+      const engine = createEngine(row(), { collisionStrategy: 'push' });
+
+      const result = engine.apply({ type: 'move', id: 'a', x: 1, y: 0 });
+
+      expect(result.ok).toBe(true);
+      expect(position(engine, 'a')).toEqual({ x: 1, y: 0, width: 2, height: 2 });
+      expect(position(engine, 'b')).toEqual({ x: 3, y: 0, width: 2, height: 2 });
+    });
+
+    it('relocates colliding widgets to free space', () => {
+      const engine = createEngine(row(), { collisionStrategy: 'relocate' });
+
+      const result = engine.apply({ type: 'move', id: 'a', x: 1, y: 0 });
+
+      expect(result.ok).toBe(true);
+      expect(position(engine, 'a')).toEqual({ x: 1, y: 0, width: 2, height: 2 });
+      expect(position(engine, 'b')).not.toEqual({ x: 2, y: 0, width: 2, height: 2 });
+      expect(hasOverlap(engine.getWidgets())).toBe(false);
+    });
+
+    it('moves displaced widgets out of the way of a resize', () => {
+      const engine = createEngine(row(), { collisionStrategy: 'push' });
+
+      const result = engine.apply({ type: 'resize', id: 'a', width: 3, height: 2 });
+
+      expect(result.ok).toBe(true);
+      expect(position(engine, 'a')).toEqual({ x: 0, y: 0, width: 3, height: 2 });
+      expect(position(engine, 'b')).toEqual({ x: 3, y: 0, width: 2, height: 2 });
+    });
+
+    it('reports a COLLISION when a widget is moved onto a static widget', () => {
+      const engine = createEngine([widget('a', 0, 0), widget('pinned', 2, 0, 2, 2, { static: true })]);
+
+      const result = engine.apply({ type: 'move', id: 'a', x: 1, y: 0 });
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) expect(result.error).toMatchObject({ code: 'COLLISION', widgetId: 'a' });
+      expect(position(engine, 'a')).toEqual({ x: 0, y: 0, width: 2, height: 2 });
+    });
+
+    it('routes displaced widgets around static widgets', () => {
+      const engine = createEngine([
+        widget('a', 0, 0),
+        widget('b', 0, 2),
+        widget('pinned', 2, 2, 2, 2, { static: true })
+      ]);
+
+      const result = engine.apply({ type: 'move', id: 'a', x: 0, y: 1 });
+
+      expect(result.ok).toBe(true);
+      expect(position(engine, 'pinned')).toEqual({ x: 2, y: 2, width: 2, height: 2 });
+      expect(hasOverlap(engine.getWidgets())).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,186 @@
+// @vitest-environment jsdom
+import { useEffect, useState } from 'react';
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { render, screen, fireEvent, act, cleanup } from '@testing-library/react';
+import { WidgetGrid } from '../src/WidgetGrid';
+import type { WidgetState } from '../src/types';
+
+const CELL = 25;
+
+// jsdom has no CSS.escape, which the grid uses to refocus a widget after a keyboard move
+if (typeof CSS === 'undefined') {
+  Object.assign(globalThis, { CSS: { escape: (value: string) => value } });
+}
+
+// jsdom has no PointerEvent either; resize handles read pointerId and pointerType from it
+if (typeof PointerEvent === 'undefined') {
+  class PointerEventPolyfill extends MouseEvent {
+    pointerId: number;
+    pointerType: string;
+    constructor(type: string, init: PointerEventInit = {}) {
+      super(type, init);
+      this.pointerId = init.pointerId ?? 1;
+      this.pointerType = init.pointerType ?? 'mouse';
+    }
+  }
+  Object.assign(globalThis, { PointerEvent: PointerEventPolyfill });
+}
+
+let mounts = 0;
+let renders = 0;
+
+function Static() {
+  renders++;
+  return <span>static</span>;
+}
+
+function Notes() {
+  return <input aria-label="notes" />;
+}
+
+// Counts mounts and keeps local state that a remount would reset
+function Counter({ label }: { label: string }) {
+  const [count, setCount] = useState(0);
+  useEffect(() => {
+    mounts++;
+  }, []);
+  return <button onClick={() => setCount(c => c + 1)}>{label}: {count}</button>;
+}
+
+const widgets: WidgetState[] = [
+  { id: 'counter', type: 'counter', x: 0, y: 0, width: 2, height: 2, props: { label: 'clicks' } }
+];
+
+const renderGrid = (initialWidgets = widgets) =>
+  render(
+    <WidgetGrid
+      cols={8}
+      rows={8}
+      cellWidth={CELL}
+      cellHeight={CELL}
+      defaultEditMode
+      enableHoverToAdd
+      showControls={false}
+      initialWidgets={initialWidgets}
+      widgetRenderers={{ counter: Counter, notes: Notes, static: Static }}
+    />
+  );
+
+// Let dnd-kit attach the keyboard listeners it registers after activation
+const tick = () => act(() => new Promise(resolve => setTimeout(resolve, 0)));
+
+describe('WidgetGrid rendering', () => {
+  afterEach(() => {
+    cleanup();
+    mounts = 0;
+    renders = 0;
+  });
+
+  it('keeps widget renderers mounted across hover and drag-preview updates', async () => {
+    const { container } = renderGrid();
+    fireEvent.click(screen.getByRole('button', { name: 'clicks: 0' }));
+    expect(mounts).toBe(1);
+
+    const grid = container.querySelector('.grid-inner')!;
+    fireEvent.mouseMove(grid, { clientX: CELL * 5 + 5, clientY: CELL * 5 + 5 });
+    fireEvent.mouseMove(grid, { clientX: CELL * 6 + 5, clientY: CELL * 5 + 5 });
+
+    const handle = container.querySelector<HTMLElement>('[data-widget-id="counter"] .drag-handle')!;
+    handle.focus();
+    fireEvent.keyDown(handle, { code: 'Space' });
+    await tick();
+    fireEvent.keyDown(document, { code: 'ArrowRight' });
+    await tick();
+    fireEvent.keyDown(document, { code: 'ArrowDown' });
+    await tick();
+
+    // The drag produced a preview, so the grid re-rendered mid-drag
+    expect(container.querySelector('.widget-preview.active')).not.toBeNull();
+
+    fireEvent.keyDown(document, { code: 'Space' });
+    await tick();
+
+    expect(mounts).toBe(1);
+    expect(screen.getByRole('button', { name: 'clicks: 1' })).toBeTruthy();
+    expect(container.querySelector('[data-widget-id="counter"]')).not.toBeNull();
+  });
+
+  it('leaves undo shortcuts typed into a renderer to the renderer', () => {
+    const { container } = renderGrid([
+      ...widgets,
+      { id: 'notes', type: 'notes', x: 4, y: 0, width: 2, height: 2 }
+    ]);
+    const wrapper = container.querySelector<HTMLElement>('[data-widget-id="counter"]')!;
+    fireEvent.keyDown(wrapper, { key: 'ArrowRight' });
+    expect(wrapper.style.getPropertyValue('--cell-x')).toBe('1');
+
+    const input = screen.getByRole('textbox', { name: 'notes' });
+    const fromInput = fireEvent.keyDown(input, { key: 'z', ctrlKey: true });
+    expect(fromInput).toBe(true);
+    expect(wrapper.style.getPropertyValue('--cell-x')).toBe('1');
+
+    fireEvent.keyDown(wrapper, { key: 'z', ctrlKey: true });
+    expect(wrapper.style.getPropertyValue('--cell-x')).toBe('0');
+  });
+
+  it('only lets Escape revert arrow key edits when nothing else changed the layout since', () => {
+    const { container } = renderGrid();
+    const wrapper = container.querySelector<HTMLElement>('[data-widget-id="counter"]')!;
+
+    fireEvent.keyDown(wrapper, { key: 'ArrowRight' });
+    fireEvent.keyDown(wrapper, { key: 'ArrowRight' });
+    fireEvent.keyDown(wrapper, { key: 'Escape' });
+    expect(wrapper.style.getPropertyValue('--cell-x')).toBe('0');
+
+    fireEvent.keyDown(wrapper, { key: 'ArrowRight' });
+    fireEvent.keyDown(wrapper, { key: 'z', ctrlKey: true });
+    fireEvent.keyDown(wrapper, { key: 'y', ctrlKey: true });
+    expect(wrapper.style.getPropertyValue('--cell-x')).toBe('1');
+
+    fireEvent.keyDown(wrapper, { key: 'Escape' });
+    expect(wrapper.style.getPropertyValue('--cell-x')).toBe('1');
+  });
+
+  it('reports a vetoed pointer resize as cancelled with the size that was kept', () => {
+    const onResizeEnd = vi.fn();
+    const { container } = render(
+      <WidgetGrid
+        cols={8}
+        rows={8}
+        cellWidth={CELL}
+        cellHeight={CELL}
+        defaultEditMode
+        showControls={false}
+        initialWidgets={widgets}
+        widgetRenderers={{ counter: Counter }}
+        onBeforeChange={action => action.type !== 'resize'}
+        onResizeEnd={onResizeEnd}
+      />
+    );
+
+    const handle = container.querySelector<HTMLElement>('[data-widget-id="counter"] .resize-handle')!;
+    fireEvent.pointerDown(handle, { pointerId: 1, pointerType: 'mouse', button: 0, clientX: 0, clientY: 0 });
+    fireEvent.pointerMove(document, { pointerId: 1, clientX: CELL * 2, clientY: 0 });
+    fireEvent.pointerUp(document, { pointerId: 1, clientX: CELL * 2, clientY: 0 });
+
+    expect(onResizeEnd).toHaveBeenCalledTimes(1);
+    expect(onResizeEnd).toHaveBeenCalledWith(expect.objectContaining({ id: 'counter', width: 2, height: 2 }), true);
+  });
+
+  it('does not re-render other widgets when one moves or the hover cell changes', () => {
+    const { container } = renderGrid([
+      ...widgets,
+      { id: 'still', type: 'static', x: 4, y: 0, width: 2, height: 2 }
+    ]);
+    const before = renders;
+
+    const grid = container.querySelector('.grid-inner')!;
+    fireEvent.mouseMove(grid, { clientX: CELL * 5 + 5, clientY: CELL * 5 + 5 });
+    fireEvent.mouseMove(grid, { clientX: CELL * 6 + 5, clientY: CELL * 5 + 5 });
+    const wrapper = container.querySelector<HTMLElement>('[data-widget-id="counter"]')!;
+    fireEvent.keyDown(wrapper, { key: 'ArrowDown' });
+
+    expect(wrapper.style.getPropertyValue('--cell-y')).toBe('1');
+    expect(renders).toBe(before);
+  });
+});
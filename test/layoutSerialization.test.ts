@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { serializeLayout, deserializeLayout } from '../src/utils/layoutSerialization';
+import type { WidgetState } from '../src/types';
+
+const widgets: WidgetState[] = [
+  { id: 'a', type: 'chart', x: 0, y: 0, width: 2, height: 2 },
+  { id: 'b', type: 'chart', x: 2, y: 0, width: 2, height: 2 }
+];
+const grid = { cols: 8, rows: 6, preventOverlap: true };
+
+describe('deserializeLayout', () => {
+  it('round-trips a serialized layout', () => {
+    const saved = JSON.stringify(serializeLayout(widgets, grid, [{ groupId: 'charts', visible: false }]));
+
+    const result = deserializeLayout(saved);
+
+    expect(result.isValid).toBe(true);
+    expect(result.layout?.widgets).toEqual(widgets);
+    expect(result.layout?.groupFilters).toEqual([{ groupId: 'charts', visible: false }]);
+  });
+
+  it('keeps widgets below rows valid in an autoRows layout', () => {
+    const tall = [...widgets, { id: 'c', type: 'chart', x: 0, y: 9, width: 2, height: 2 }];
+    const saved = JSON.stringify(serializeLayout(tall, { ...grid, autoRows: true }));
+
+    const result = deserializeLayout(saved);
+    const fixed = deserializeLayout(saved, { grid });
+
+    expect(result.isValid).toBe(true);
+    expect(result.layout?.grid).toEqual({ ...grid, autoRows: true });
+    expect(fixed.isValid).toBe(false);
+    expect(fixed.issues).toEqual([expect.objectContaining({ code: 'OUT_OF_BOUNDS', widgetId: 'c' })]);
+  });
+
+  it('runs migrations up to the current version', () => {
+    const result = deserializeLayout({ version: 0, grid, widgets, filters: [{ groupId: 'charts' }, { id: 1 }] }, {
+      migrations: { 0: doc => ({ ...doc, version: 1, groupFilters: doc.filters }) }
+    });
+
+    expect(result.isValid).toBe(true);
+    expect(result.layout?.groupFilters).toEqual([{ groupId: 'charts', visible: true }]);
+  });
+
+  it('reports a migration that throws instead of throwing', () => {
+    const result = deserializeLayout({ version: 0, grid, widgets }, {
+      migrations: {
+        0: () => {
+          throw new Error('boom');
+        }
+      }
+    });
+
+    expect(result).toEqual({
+      isValid: false,
+      layout: null,
+      issues: [expect.objectContaining({ code: 'MIGRATION_FAILED', message: expect.stringContaining('boom') })]
+    });
+  });
+
+  it('rejects malformed input', () => {
+    expect(deserializeLayout('{').issues[0].code).toBe('INVALID_DOCUMENT');
+    expect(deserializeLayout({ version: '1', grid, widgets }).issues[0].code).toBe('INVALID_DOCUMENT');
+    expect(deserializeLayout({ version: 1, grid: null, widgets }).issues[0].code).toBe('INVALID_DOCUMENT');
+    expect(deserializeLayout({ version: 2, grid, widgets }).issues[0].code).toBe('UNSUPPORTED_VERSION');
+
+    const result = deserializeLayout({ version: 1, grid, widgets: [...widgets, { id: 'c', x: 'left' }] });
+    expect(result.isValid).toBe(false);
+    expect(result.issues).toEqual([expect.objectContaining({ code: 'INVALID_WIDGET' })]);
+    expect(result.layout?.widgets).toEqual(widgets);
+  });
+
+  it('checks widget sizes against defaultSizeLimits', () => {
+    const result = deserializeLayout(serializeLayout(widgets, grid), { defaultSizeLimits: { maxW: 1 } });
+
+    expect(result.issues.map(issue => [issue.code, issue.widgetId])).toEqual([
+      ['SIZE_CONSTRAINT', 'a'],
+      ['SIZE_CONSTRAINT', 'b']
+    ]);
+  });
+});
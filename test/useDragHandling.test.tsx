@@ -0,0 +1,56 @@
+// @vitest-environment jsdom
+import { describe, it, expect } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useDragHandling } from '../src/hooks/useDragHandling';
+import { LayoutEngine } from '../src/engine/LayoutEngine';
+import type { WidgetState } from '../src/types';
+
+const widgets: WidgetState[] = [
+  { id: 'a', type: 'default', x: 0, y: 0, width: 2, height: 2 },
+  { id: 'b', type: 'default', x: 2, y: 0, width: 2, height: 2 }
+];
+
+const renderDragHandling = (engine: LayoutEngine) =>
+  renderHook(() => useDragHandling({
+    widgets,
+    cols: 8,
+    rows: 8,
+    cellWidth: 50,
+    cellHeight: 50,
+    engine,
+    onWidgetMove: () => {},
+    onWidgetResize: () => {}
+  }));
+
+describe('useDragHandling', () => {
+  it('previews a resize with the reflow the engine would commit', () => {
+    const engine = new LayoutEngine({ cols: 8, rows: 8, preventOverlap: true, collisionStrategy: 'push' }, widgets);
+    const { result } = renderDragHandling(engine);
+
+    act(() => {
+      result.current.updateResizePreview('a', { x: 0, y: 0, width: 3, height: 2 });
+    });
+
+    const committed = engine.plan({ type: 'resize', id: 'a', width: 3, height: 2 });
+    expect(committed.ok).toBe(true);
+    const b = committed.ok ? committed.value.after.find(w => w.id === 'b')! : null;
+    expect(result.current.preview?.isValid).toBe(true);
+    expect(result.current.preview?.reflowPreviews).toEqual([
+      { id: 'b', x: b!.x, y: b!.y, width: 2, height: 2 }
+    ]);
+  });
+
+  it('marks a resize the engine rejects as invalid', () => {
+    const engine = new LayoutEngine(
+      { cols: 8, rows: 8, preventOverlap: true, defaultSizeLimits: { maxW: 2, maxH: 2 } },
+      widgets
+    );
+    const { result } = renderDragHandling(engine);
+
+    act(() => {
+      result.current.updateResizePreview('a', { x: 0, y: 0, width: 3, height: 3 });
+    });
+
+    expect(result.current.preview?.isValid).toBe(false);
+  });
+});
@@ -0,0 +1,74 @@
+// @vitest-environment jsdom
+import { describe, it, expect } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useWidgetActions } from '../src/hooks/useWidgetActions';
+import type { WidgetState } from '../src/types';
+
+const initialWidgets: WidgetState[] = [
+  { id: 'a', type: 'default', x: 0, y: 0, width: 2, height: 2 }
+];
+
+const renderActions = () =>
+  renderHook(() => useWidgetActions({
+    cols: 8,
+    rows: 8,
+    preventOverlap: true,
+    defaultWidgetSize: { w: 2, h: 2 },
+    initialWidgets
+  }));
+
+describe('useWidgetActions', () => {
+  it('keeps one engine and notifies its subscribers of every change', () => {
+    const { result } = renderActions();
+    const engine = result.current.engine;
+    const actions: string[] = [];
+    engine.subscribe((_, action) => actions.push(action.type));
+
+    act(() => {
+      result.current.moveWidget('a', 3, 0);
+    });
+    act(() => {
+      result.current.resizeWidget('a', 3, 3);
+    });
+    act(() => {
+      result.current.undo();
+    });
+
+    expect(result.current.engine).toBe(engine);
+    expect(actions).toEqual(['move', 'resize', 'undo']);
+    expect(engine.getWidgets()).toBe(result.current.widgets);
+  });
+
+  it('records every resize as its own undo step', () => {
+    const { result } = renderActions();
+
+    act(() => {
+      result.current.resizeWidget('a', 3, 2);
+    });
+    act(() => {
+      result.current.resizeWidget('a', 4, 2);
+    });
+    act(() => {
+      result.current.undo();
+    });
+
+    expect(result.current.widgets[0]).toMatchObject({ width: 3, height: 2 });
+    expect(result.current.canUndo()).toBe(true);
+  });
+
+  it('undoes and redoes changes made earlier in the same tick', () => {
+    const { result } = renderActions();
+
+    act(() => {
+      result.current.moveWidget('a', 3, 0);
+      result.current.moveWidget('a', 5, 0);
+      result.current.undo();
+    });
+    expect(result.current.widgets[0]).toMatchObject({ x: 3, y: 0 });
+
+    act(() => {
+      result.current.redo();
+    });
+    expect(result.current.widgets[0]).toMatchObject({ x: 5, y: 0 });
+  });
+});
@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+// Engine and util tests run in Node; component tests opt into jsdom per file
+export default defineConfig({
+  test: {
+    include: ['test/**/*.test.{ts,tsx}'],
+    environment: 'node'
+  }
+});